@@ -1,26 +1,44 @@
-import { render, useState, h } from "../../src/index"
-// import { createRoot } from 'react-dom'
-// import {useState,createElement as h } from 'react'
+import { render, useState, h, batch, flushSync } from "../../src/index"
+
+let setBoth
+
+function Count({ name }) {
+  const [count, setCount] = useState(0)
+  console.log("render", name)
+  if (name === "a") setBoth = setCount
+  return <h1>{count}</h1>
+}
 
 function App() {
   const [count, setCount] = useState(0)
-  console.log(111)
   const update = () => {
+    // 事件处理函数中的多次更新合并为一次渲染
     for (let i = 0; i <= 10; i++) {
       setCount(i)
     }
   }
+  const later = () => {
+    setTimeout(() => {
+      // 不同组件的更新同样合并为一次渲染和一次提交
+      batch(() => {
+        setCount((c) => c + 1)
+        setBoth((c) => c + 1)
+      })
+    })
+  }
+  const sync = () => {
+    flushSync(() => setCount((c) => c + 1))
+    console.log("committed", document.querySelector("h2").textContent)
+  }
   return (
     <div>
-      <h1>{count}</h1>
+      <h2>{count}</h2>
+      <Count name="a" />
       <button onClick={update}>+</button>
+      <button onClick={later}>later</button>
+      <button onClick={sync}>sync</button>
     </div>
   )
 }
 
-// const root = createRoot(document.getElementById("app"))
-
-// root.render(<App />)
-
 render(<App />, document.body)
-
@@ -5,6 +5,7 @@ import {
   useEffect,
   useCallback,
   memo,
+  Profiler,
 } from '../../src/index'
 var startTime
 var lastMeasure
@@ -249,4 +250,14 @@ const Main = () => {
   )
 }
 
-render(<Main />, document.getElementById('app'))
+const onRender = ({ phase, actualDuration, baseDuration, captures, slices }) =>
+  console.log(
+    `fre ${phase} render ${actualDuration.toFixed(2)}ms (base ${baseDuration.toFixed(2)}ms), ${captures} captures in ${slices} slices`
+  )
+
+render(
+  <Profiler id='main' onRender={onRender}>
+    <Main />
+  </Profiler>,
+  document.getElementById('app')
+)
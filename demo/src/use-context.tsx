@@ -1,52 +1,20 @@
 import {
-  useReducer,
-  useRef,
-  useEffect,
   render,
   h,
+  memo,
   useState,
+  createContext,
+  useContext,
+  useContextSelector,
 } from "../../src/index"
 
-export const createContext = (defaultValue) => {
-  const context = {
-    value: defaultValue,
-    subs: new Set(),
-    Provider: ({ value, children = "" }) => {
-      useEffect(() => {
-        context.subs.forEach((fn: any) => fn(value))
-        context.value = value
-      })
-      return children
-    },
-  }
-  return context
-}
-
-export const useContext = (context, selector?) => {
-  const subs = context.subs
-  const [, forceUpdate] = useReducer((c) => c + 1, 0)
-  const selected = selector ? selector(context.value) : context.value
-  const ref = useRef(null)
-  useEffect(() => {
-    ref.current = selected
-  })
-  useEffect(() => {
-    const fn = (nextValue: unknown) => {
-      if (selector && ref.current === selector(nextValue)) return
-      forceUpdate(nextValue)
-    }
-    subs.add(fn)
-    return () => subs.delete(fn)
-  }, [subs])
-  return selected
-}
+const Theme = createContext({ count: 0, name: "light" })
 
-const Theme = createContext(0)
-
-function NestedTheme() {
-  const theme = useContext(Theme)
-  return <p>Nested Active theme: {theme}</p>
-}
+const NestedTheme = memo(() => {
+  // 只有 count 变化时才重新渲染
+  const count = useContextSelector(Theme, (theme) => theme.count)
+  return <p>Nested Active theme: {count}</p>
+})
 
 function DisplayTheme(props) {
   const theme = useContext(Theme)
@@ -54,22 +22,26 @@ function DisplayTheme(props) {
   return (
     <div>
       {props && props.children}
-      <p>Display Active theme: {theme}</p>
+      <p>Display Active theme: {theme.name}</p>
     </div>
   )
 }
 
 const App = () => {
-  const [count, setCount] = useState(Theme.value)
+  const [count, setCount] = useState(0)
+  const [name, setName] = useState("light")
   return (
     <div>
       <h1>{count}</h1>
       <button onClick={() => setCount(count + 1)}>+</button>
-      <Theme.Provider value={count}>
+      <button onClick={() => setName(name === "light" ? "dark" : "light")}>
+        toggle
+      </button>
+      <Theme.Provider value={{ count, name }}>
         <DisplayTheme>
           <NestedTheme />
         </DisplayTheme>
-        <DisplayTheme />
+        <Theme.Consumer>{(theme) => <p>Consumer: {theme.name}</p>}</Theme.Consumer>
       </Theme.Provider>
     </div>
   )
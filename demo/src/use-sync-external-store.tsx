@@ -1,39 +1,31 @@
-import { useState, useEffect, useLayoutEffect } from '../../src'
+import { render, h, useSyncExternalStore } from '../../src/index'
 
-export function useSyncExternalStore(subscribe, getSnapshot) {
-  const value = getSnapshot()
-  const [{ inst }, forceUpdate] = useState({ inst: { value, getSnapshot } })
-  useLayoutEffect(() => {
-    inst.value = value
-    inst.getSnapshot = getSnapshot
-
-    if (checkIfSnapshotChanged(inst)) {
-      forceUpdate({ inst })
-    }
-  }, [subscribe, value, getSnapshot])
-
-  useEffect(() => {
-    if (checkIfSnapshotChanged(inst)) {
-      forceUpdate({ inst })
-    }
-    const handleStoreChange = () => {
-      if (checkIfSnapshotChanged(inst)) {
-        forceUpdate({ inst })
-      }
-    }
-    return subscribe(handleStoreChange)
-  }, [subscribe])
+const store = {
+  count: 0,
+  listeners: new Set<() => void>(),
+  subscribe(cb) {
+    store.listeners.add(cb)
+    return () => store.listeners.delete(cb)
+  },
+  getSnapshot: () => store.count,
+  increment() {
+    store.count++
+    store.listeners.forEach((cb) => cb())
+  },
+}
 
-  return value
+function Count() {
+  const count = useSyncExternalStore(store.subscribe, store.getSnapshot, () => 0)
+  return <span>{count}</span>
 }
 
-function checkIfSnapshotChanged(inst) {
-  const latestGetSnapshot = inst.getSnapshot
-  const prevValue = inst.value
-  try {
-    const nextValue = latestGetSnapshot()
-    return !Object.is(prevValue, nextValue)
-  } catch (error) {
-    return true
-  }
+function App() {
+  return (
+    <div>
+      <Count /> <Count />
+      <button onClick={store.increment}>+</button>
+    </div>
+  )
 }
+
+render(<App />, document.getElementById('app'))
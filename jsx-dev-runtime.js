@@ -1 +1 @@
-export { h as jsx, h as jsxs, h as jsxDEV, Fragment } from "./dist/fre.js";
+export { h as jsx, h as jsxs, h as jsxDEV, Fragment } from "fre";
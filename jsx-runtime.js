@@ -1 +1 @@
-export { h as jsx, h as jsxs, Fragment } from "./dist/fre.js"
+export { h as jsx, h as jsxs, Fragment } from "fre"
@@ -2,24 +2,69 @@ import { terser } from 'rollup-plugin-terser'
 import typescript from 'rollup-plugin-typescript2'
 import size from 'rollup-plugin-size'
 
+const env = (mode) => ({
+  name: 'env',
+  transform: (code) => ({
+    code: code.replace(/process\.env\.NODE_ENV/g, JSON.stringify(mode)),
+    map: null,
+  }),
+})
+
 const plugins = [
   typescript({
     tsconfig: 'tsconfig.json',
     removeComments: true,
     useTsconfigDeclarationDir: true,
   }),
+  env('production'),
   terser({
-    include: ['fre.js'],
+    include: ['fre.js', 'server.js', 'devtools.js', 'shared.js'],
   }),
   size()
 ]
 
-export default {
-  input: 'src/index.ts',
-  output: [
-    { file: 'dist/fre.umd.js', format: 'umd', name: 'fre', sourcemap: true },
-    { file: 'dist/fre.js', format: 'esm', sourcemap: true },
-    { file: 'dist/fre.esm.js', format: 'esm', sourcemap: true },
-  ],
-  plugins,
-}
+const devPlugins = [
+  typescript({
+    tsconfig: 'tsconfig.json',
+    removeComments: true,
+    tsconfigOverride: { compilerOptions: { declaration: false } },
+  }),
+  env('development'),
+]
+
+// fre/server 和 fre/devtools 是单独的入口，与 fre 共用 hooks 等模块的同一份实例，这些模块放在共享的 chunk 中
+const split = (suffix) => ({
+  dir: 'dist',
+  format: 'esm',
+  sourcemap: true,
+  entryFileNames: `[name]${suffix}.js`,
+  chunkFileNames: `shared${suffix}.js`,
+})
+
+export default [
+  {
+    input: { fre: 'src/index.ts', server: 'src/server.ts', devtools: 'src/panel.ts' },
+    output: split(''),
+    plugins,
+  },
+  {
+    input: 'src/index.ts',
+    output: [
+      { file: 'dist/fre.umd.js', format: 'umd', name: 'fre', sourcemap: true },
+      { file: 'dist/fre.esm.js', format: 'esm', sourcemap: true },
+    ],
+    plugins,
+  },
+  {
+    input: { fre: 'src/index.ts', server: 'src/server.ts', devtools: 'src/panel.ts' },
+    output: split('.development'),
+    plugins: devPlugins,
+  },
+  {
+    input: 'src/index.ts',
+    output: [
+      { file: 'dist/fre.development.umd.js', format: 'umd', name: 'fre', sourcemap: true },
+    ],
+    plugins: devPlugins,
+  },
+]
@@ -0,0 +1 @@
+export { renderToString, renderToStream } from "./dist/server.js";
@@ -0,0 +1,71 @@
+import { useReducer } from './hook';
+import { FC, Fiber, FreNode, HookReducer } from './type';
+
+export interface ErrorBoundaryProps {
+  fallback: (error: unknown, reset: () => void) => FreNode;
+  children?: FreNode;
+}
+
+// 捕获到的错误，用对象包装以区分 throw null / throw undefined
+type Caught = { error: unknown } | null;
+
+/**
+ * ErrorBoundary 组件，子树抛出错误时渲染 fallback(error, reset)
+ * 捕获状态保存在第 0 个 hook 槽中，由 fail 和 report 写入
+ * @param props fallback 与 children
+ */
+export const ErrorBoundary: FC<ErrorBoundaryProps> = ({
+  fallback,
+  children,
+}) => {
+  const [caught, dispatch] = useReducer<Caught, Caught>(null, null);
+  return (
+    caught ? fallback(caught.error, () => dispatch(null)) : children
+  ) as ReturnType<FC>;
+};
+
+/**
+ * 获取 ErrorBoundary fiber 的状态槽
+ * @param fiber ErrorBoundary fiber
+ */
+const slotOf = (fiber: Fiber) => fiber.hooks.list[0] as HookReducer<Caught>;
+
+/**
+ * 向上查找最近的、尚未处于错误状态的 ErrorBoundary
+ * fallback 中抛出的错误交给更外层的 ErrorBoundary 处理
+ * @param fiber 出错的 Fiber 节点
+ */
+const findBoundary = (fiber: Fiber) => {
+  let boundary = fiber.parent;
+  while (boundary && !(boundary.type === ErrorBoundary && !slotOf(boundary)[0])) {
+    boundary = boundary.parent;
+  }
+  return boundary;
+};
+
+/**
+ * 处理渲染阶段抛出的错误
+ * 直接写入 ErrorBoundary 的状态，由调用方从该 fiber 重新开始渲染
+ * @param fiber 出错的 Fiber 节点
+ * @param error 抛出的错误
+ * @returns 返回需要重新处理的 ErrorBoundary fiber，找不到时返回 null
+ */
+export const fail = (fiber: Fiber, error: unknown) => {
+  const boundary = findBoundary(fiber);
+  if (boundary) {
+    slotOf(boundary)[0] = { error };
+  }
+  return boundary;
+};
+
+/**
+ * 处理副作用和 ref 回调中抛出的错误
+ * 此时已无法回退渲染，通过 dispatch 调度一次新的更新来渲染 fallback
+ * @param fiber 出错的 Fiber 节点
+ * @param error 抛出的错误
+ */
+export const report = (fiber: Fiber, error: unknown) => {
+  const boundary = findBoundary(fiber);
+  if (!boundary) throw error;
+  slotOf(boundary)[1]({ error });
+};
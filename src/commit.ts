@@ -1,92 +1,241 @@
-import { FiberFinish, FiberHost, HTMLElementEx, Fiber, Ref, TAG } from './type';
-import { updateElement } from './dom';
+import {
+  FiberFinish,
+  FiberHost,
+  HTMLElementEx,
+  Fiber,
+  Hooks,
+  LANE,
+  Ref,
+  TAG,
+} from './type';
+import { isFormElement, restoreControlled, updateElement } from './dom';
 import { isFn } from './reconcile';
+import { report } from './boundary';
+import { isPortal } from './portal';
+import { bind, containerOf } from './event';
+import { DEV, markUnmounted } from './dev';
+import { emit } from './devtools';
+import { Offscreen, commitHidden, commitOffscreen } from './offscreen';
+
+// 正在提交的节点所在的事件委托容器：根容器或 portal 的容器
+let container: Node = null;
+// hooks 到最近一次提交的组件 fiber 的映射，hook 中保存的旧 fiber 由此找到最新的 fiber
+const owners = new WeakMap<Hooks, Fiber>();
+// 已经移除的 fiber，同一个 vnode 再次插入时需要作为新节点重新挂载
+const removed = new WeakSet<Fiber>();
+
+/**
+ * 提交的入口，先移除 diff 中标记为 REMOVE 的旧节点，再依次从渲染完成的各个根 fiber 开始提交
+ * @param roots 本次渲染的根 Fiber 节点，祖先在前
+ * @param deletions 本次渲染中需要移除的旧节点
+ */
+export const commitRoot = (roots: FiberFinish[], deletions: Fiber[]) => {
+  const start = DEV && performance.now();
+  deletions.forEach((fiber) => removeElement(fiber));
+  roots.forEach((fiber) => {
+    container = containerOf(fiber);
+    commit(fiber);
+  });
+  container = null;
+  // 开发模式下将提交结果和耗时发送给开发者工具
+  if (DEV) emit(roots[0], performance.now() - start);
+};
 
 /**
  * 提交阶段的主函数，将 Fiber 树的变化应用到真实 DOM
  * 这是渲染流程的最后阶段，负责实际的 DOM 操作
+ * 子节点从左到右先于父节点提交，节点插入时其左侧的兄弟节点都已就位
  * @param fiber 要提交的 Fiber 节点
  */
-export const commit = (fiber?: FiberFinish) => {
-  if (!fiber) {
-    return;
+const commit = (fiber: FiberFinish) => {
+  if (fiber.isComp && fiber.hooks) adopt(fiber);
+  // 未变化的 memo 组件跳过子树，只需要处理自身的移动
+  if (!fiber.memo) {
+    // 处理宿主节点的 ref 引用，ref 回调中的错误交给最近的 ErrorBoundary
+    // 组件上的 ref 由 forwardRef 转发或由 useImperativeHandle 赋值
+    try {
+      if (!fiber.isComp) refer(fiber.ref, fiber.node);
+    } catch (e) {
+      report(fiber, e);
+    }
+    // 提交子节点，portal 的子节点委托到 portal 的容器上
+    const outer = container;
+    if (isPortal(fiber)) container = fiber.props.container;
+    for (let kid = fiber.child; kid; kid = kid.sibling) commit(kid);
+    container = outer;
+
+    if (!fiber.isComp && !isPortal(fiber)) {
+      // 处理更新操作，更新 DOM 元素的属性
+      if (fiber.action?.op & TAG.UPDATE) {
+        updateElement(
+          fiber.node,
+          (fiber.alternate as FiberHost).props || {},
+          (fiber as FiberHost).props
+        );
+      }
+      // 隐藏的 Offscreen 中最外层的节点保持隐藏
+      if (fiber.lane & TAG.HIDDEN) commitHidden(fiber);
+      // 受控的表单元素恢复为 props 中的值
+      if (isFormElement(fiber)) {
+        restoreControlled(fiber as FiberHost);
+      }
+      // 记录节点对应的 fiber，并在容器上监听用到的事件
+      if (fiber.parent && fiber.type !== '#text') {
+        bind(fiber, container);
+      }
+    }
+  }
+  // 冻结的 Offscreen 作为 memo 跳过了子树，仍需切换隐藏状态
+  if (fiber.type === Offscreen) commitOffscreen(fiber);
+
+  place(fiber);
+  // 清除操作标记
+  fiber.action = null;
+};
+
+/**
+ * 组件 fiber 提交后取代上一次的 fiber，成为其 hooks 的所有者
+ * 上一次的 fiber 上尚未处理的更新：重新渲染过的组件已经包含了这次更新，
+ * 被跳过的 memo 组件则接管这次更新，之后由调度的渲染从最新的 fiber 开始
+ * @param fiber 组件 Fiber 节点
+ */
+const adopt = (fiber: Fiber) => {
+  owners.set(fiber.hooks, fiber);
+  const old = fiber.alternate;
+  if (!old || old === fiber || !old.dirty) return;
+  if (fiber.memo) {
+    fiber.dirty = true;
+    fiber.lane |= old.lane & LANE.MASK;
   }
+  old.dirty = false;
+};
+
+/**
+ * 获取组件最近一次提交的 fiber，hooks 中保存的 fiber 可能已被之后的渲染取代
+ * @param fiber Fiber 节点
+ */
+export const latest = (fiber: Fiber) =>
+  (fiber.hooks && owners.get(fiber.hooks)) || fiber;
 
-  // 处理 ref 引用
-  refer(fiber.ref, fiber.node);
-  // 递归提交子节点
-  commitSibling(fiber.child);
+/**
+ * 检查 fiber 是否已经移除，例如所在的根节点已经卸载
+ * @param fiber Fiber 节点
+ */
+export const isRemoved = (fiber: Fiber) => removed.has(fiber);
 
-  // 获取当前节点的操作信息
-  const { op, ref, cur } = fiber.action || {};
+/**
+ * 检查 fiber 是否已经移除，并清除该标记
+ * @param fiber Fiber 节点
+ * @returns 返回 fiber 是否已经移除
+ */
+export const reclaim = (fiber: Fiber) => removed.delete(fiber);
+
+/**
+ * 处理插入或移动操作，将 fiber 的所有宿主节点放到左侧兄弟节点的最后一个宿主节点之后
+ * 组件和 Fragment 没有自己的 DOM 节点，移动时整体移动其子树的宿主节点
+ * @param fiber 要处理的 Fiber 节点
+ */
+const place = (fiber: Fiber) => {
+  const op = fiber.action?.op;
+  if (!(op & (TAG.INSERT | TAG.MOVE))) return;
+  // 新插入的组件的子节点都是新节点，已经各自插入到了正确的位置
+  if (fiber.isComp && op & TAG.INSERT) return;
 
-  // 获取父节点，处理注释节点的情况
-  let parent = fiber?.parent?.node;
-  if (parent?.nodeType === 8) {
-    parent = parent.parentNode as any;
+  const nodes = hostNodes(fiber);
+  if (!nodes.length) return;
+  const parent = hostParent(fiber);
+  // 从后往前插入，锚点可能正是要移动的节点之一
+  let anchor = anchorOf(fiber);
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    parent.insertBefore(nodes[i], anchor);
+    anchor = nodes[i];
   }
+};
 
-  // 处理插入或移动操作
-  if (op & TAG.INSERT || op & TAG.MOVE) {
-    let comment = null;
-    if (fiber.isComp) {
-      // 组件节点需要特殊处理，保存注释节点
-      //@ts-ignore
-      comment = fiber?.node?.firstChild;
-    }
-    // 将节点插入到指定位置
-    parent.insertBefore(cur.node, ref?.node);
-    if (fiber.isComp) {
-      fiber.node = comment;
-    }
+/**
+ * 获取 fiber 所在的 DOM 父节点：最近的宿主祖先、portal 的容器或根容器
+ * @param fiber Fiber 节点
+ */
+const hostParent = (fiber: Fiber) => {
+  let parent = fiber.parent;
+  while (parent.isComp) parent = parent.parent;
+  return parent.node as Node;
+};
+
+/**
+ * 按顺序收集 fiber 在其 DOM 父节点下的宿主节点，portal 的子节点不在其中
+ * @param fiber Fiber 节点
+ * @param nodes 收集结果
+ */
+const hostNodes = (fiber: Fiber, nodes: Node[] = []) => {
+  if (fiber.isComp) {
+    fiber.kids?.forEach((kid) => hostNodes(kid, nodes));
+  } else if (!isPortal(fiber)) {
+    nodes.push(fiber.node);
   }
+  return nodes;
+};
 
-  // 处理更新操作
-  if (op & TAG.UPDATE) {
-    const node = fiber.node;
-    // 更新 DOM 元素的属性
-    updateElement(
-      node,
-      (fiber.alternate as FiberHost).props || {},
-      (fiber as FiberHost).props
-    );
+/**
+ * 获取 fiber 子树中最后一个宿主节点，没有时返回 null
+ * @param fiber Fiber 节点
+ */
+const lastNode = (fiber: Fiber): Node => {
+  if (isPortal(fiber)) return null;
+  if (!fiber.isComp) return fiber.node;
+  for (let i = (fiber.kids?.length || 0) - 1; i >= 0; i--) {
+    const node = lastNode(fiber.kids[i]);
+    if (node) return node;
   }
+  return null;
+};
 
-  // 清除操作标记
-  fiber.action = null;
-  // 递归提交兄弟节点
-  commitSibling(fiber.sibling);
+/**
+ * 获取子节点中第一个已就位的宿主节点，跳过尚未插入或移动的节点
+ * @param kids 子 Fiber 节点
+ */
+const firstNode = (kids: Fiber[] = []): Node => {
+  for (const kid of kids) {
+    if (isPortal(kid) || kid.action?.op & (TAG.INSERT | TAG.MOVE)) continue;
+    const node = kid.isComp ? firstNode(kid.kids) : kid.node;
+    if (node) return node;
+  }
+  return null;
 };
 
 /**
- * 递归提交兄弟节点
- * 跳过 memo 组件，避免不必要的提交
- * @param fiber 要提交的 Fiber 节点
+ * 获取插入位置：左侧最近的、有宿主节点的兄弟节点之后
+ * 组件是第一个子节点时继续向上查找组件左侧的兄弟节点，直到 DOM 父节点
+ * @param fiber 要插入的 Fiber 节点
+ * @returns 返回 insertBefore 的参照节点
  */
-function commitSibling(fiber?: FiberFinish) {
-  if (fiber?.memo) {
-    // 如果是 memo 组件且未变化，跳过提交
-    commitSibling(fiber.sibling);
-  } else {
-    // 否则正常提交
-    commit(fiber);
+const anchorOf = (fiber: Fiber): Node => {
+  while (true) {
+    for (let i = fiber.index - 1; i >= 0; i--) {
+      const last = lastNode(fiber.parent.kids[i]);
+      if (last) return last.nextSibling;
+    }
+    fiber = fiber.parent;
+    // portal 的容器中可能有其他内容，插入到 portal 已有的节点之前
+    if (isPortal(fiber)) return firstNode(fiber.kids);
+    if (!fiber.isComp) return fiber.node.firstChild;
   }
-}
+};
 
 /**
  * 处理 ref 引用
  * 支持函数形式和对象形式的 ref
  * @param ref ref 引用
- * @param dom DOM 元素
+ * @param value DOM 元素，或 useImperativeHandle 创建的对象
  */
-const refer = (ref?: Ref<HTMLElementEx>, dom?: HTMLElementEx) => {
+export const refer = <T = HTMLElementEx>(ref?: Ref<T>, value?: T) => {
   if (ref) {
     if (isFn(ref)) {
       // 函数形式的 ref
-      ref(dom);
+      ref(value);
     } else {
       // 对象形式的 ref
-      ref.current = dom;
+      ref.current = value;
     }
   }
 };
@@ -100,8 +249,8 @@ const kidsRefer = (kids: Fiber[]) => {
   kids?.forEach((kid) => {
     // 递归处理子节点的子节点
     kid.kids && kidsRefer(kid.kids);
-    // 清理当前节点的 ref
-    refer(kid.ref, null);
+    // 清理当前节点的 ref，组件的 ref 由 useImperativeHandle 的清理函数清除
+    if (!kid.isComp) refer(kid.ref, null);
   });
 };
 
@@ -112,12 +261,21 @@ const kidsRefer = (kids: Fiber[]) => {
  * @param flag 是否已经移除的标志，避免重复移除
  */
 export const removeElement = (fiber: Fiber, flag: boolean = true) => {
-  if (fiber.isComp) {
-    // 组件节点：执行清理函数
-    fiber.hooks && fiber.hooks.list.forEach((e) => e[2] && e[2]());
+  removed.add(fiber);
+  if (isFn(fiber.type)) {
+    // 组件节点：执行清理函数，并丢弃尚未执行的 effects，组件的宿主节点随子节点移除
+    if (fiber.hooks) {
+      fiber.hooks.list.forEach((e) => e[2] && e[2]());
+      fiber.hooks.effect.length = fiber.hooks.layout.length = 0;
+      if (DEV) markUnmounted(fiber);
+    }
+  } else if (isPortal(fiber)) {
+    // portal 的子节点位于另一个容器中，需要单独移除
+    flag = true;
   } else {
     // 宿主节点：从 DOM 中移除
-    if (flag) {
+    // 被 Suspense / ErrorBoundary 丢弃的新节点可能尚未挂载
+    if (flag && fiber.node?.parentNode) {
       (fiber.node.parentNode as any).removeChild(fiber.node);
       flag = false;
     }
@@ -0,0 +1,177 @@
+import { useImperativeHandle, useLayout, useReducer, useRef } from './hook';
+import { isFn } from './reconcile';
+import { Dispatch, FC, Fiber, FreNode, Ref } from './type';
+
+// setState 接受的参数：部分状态，或根据当前状态和 props 计算部分状态的函数
+export type StateUpdate<P, S> =
+  | Partial<S>
+  | ((state: S, props: P) => Partial<S> | null)
+  | null;
+
+// 类组件的构造函数及其静态方法
+export interface ComponentClass<P = any, S = any> {
+  new (props: P): Component<P, S>;
+  getDerivedStateFromProps?: (props: P, state: S) => Partial<S> | null;
+}
+
+// 类组件实例背后的状态，保存在组件 fiber 的 hook 槽中
+interface Internal {
+  instance: Component;
+  state: any; // 已合并 setState 的最新状态，渲染时赋给 instance.state
+  committed: [props: any, state: any] | null; // 上一次提交的 props 和 state
+  force: boolean; // forceUpdate 跳过 shouldComponentUpdate
+  callbacks: (() => void)[]; // setState / forceUpdate 的回调，提交后执行
+  dispatch: Dispatch<void>; // 调度组件 fiber 的更新
+}
+
+// 组件实例到其内部状态的映射
+const internals = new WeakMap<Component, Internal>();
+
+/**
+ * 类组件的基类，生命周期映射到 hooks：状态保存在 hook 槽中，setState 通过 update 调度，
+ * componentDidMount / componentDidUpdate / componentWillUnmount 在 layout effect 队列中执行，
+ * 组件上的 ref 指向实例
+ */
+export class Component<P = any, S = any> {
+  props: P;
+  state: S;
+
+  constructor(props: P) {
+    this.props = props;
+  }
+
+  /**
+   * 合并部分状态并调度更新，新状态在调用时立即计算
+   * @param update 部分状态或计算函数
+   * @param callback 更新提交后执行的回调
+   */
+  setState(update: StateUpdate<P, S>, callback?: () => void) {
+    const internal = internals.get(this);
+    // 尚未渲染（如在 constructor 中调用）时直接修改状态
+    if (!internal) {
+      this.state = merge(this.state, update, this.props);
+      return;
+    }
+    internal.state = merge(internal.state, update, this.props);
+    schedule(internal, callback);
+  }
+
+  /**
+   * 跳过 shouldComponentUpdate 强制重新渲染
+   * @param callback 更新提交后执行的回调
+   */
+  forceUpdate(callback?: () => void) {
+    const internal = internals.get(this);
+    if (!internal) return;
+    internal.force = true;
+    schedule(internal, callback);
+  }
+
+  render(): FreNode {
+    return null;
+  }
+
+  componentDidMount?(): void;
+  componentDidUpdate?(prevProps: P, prevState: S): void;
+  componentWillUnmount?(): void;
+  shouldComponentUpdate?(nextProps: P, nextState: S): boolean;
+}
+
+/**
+ * 检查组件类型是否为类组件
+ * @param type 组件类型
+ */
+export const isClass = (type: unknown): type is ComponentClass =>
+  isFn(type) && type.prototype instanceof Component;
+
+/**
+ * 合并部分状态，返回新的状态对象
+ * @param state 当前状态
+ * @param update 部分状态或计算函数
+ * @param props 传给计算函数的 props
+ */
+const merge = <P, S>(state: S, update: StateUpdate<P, S>, props: P) => {
+  const partial = isFn(update) ? update(state, props) : update;
+  return partial == null ? state : (Object.assign({}, state, partial) as S);
+};
+
+/**
+ * 记录回调并调度组件的更新
+ * @param internal 组件实例的内部状态
+ * @param callback 更新提交后执行的回调
+ */
+const schedule = (internal: Internal, callback?: () => void) => {
+  if (callback) internal.callbacks.push(callback);
+  internal.dispatch();
+};
+
+/**
+ * 渲染类组件，由 renderHook 调用，与函数组件一样以 hooks 保存状态和调度副作用
+ * shouldComponentUpdate 返回 false 时与未变化的 memo 组件一样跳过子树
+ * @param fiber 类组件 Fiber
+ * @returns 返回 render 的结果，跳过时返回 null
+ */
+export const renderClass = (fiber: Fiber): ReturnType<FC> => {
+  const type = fiber.type as unknown as ComponentClass;
+  const { props } = fiber;
+  const slot = useRef<Internal>(null);
+  const [, dispatch] = useReducer<number, void>((n) => n + 1, 0);
+
+  let internal = slot.current;
+  if (!internal) {
+    const instance = new type(props);
+    instance.props = props;
+    internal = slot.current = {
+      instance,
+      state: instance.state,
+      committed: null,
+      force: false,
+      callbacks: [],
+      dispatch,
+    };
+    internals.set(instance, internal);
+  }
+  internal.dispatch = dispatch;
+
+  const { instance, committed } = internal;
+  if (type.getDerivedStateFromProps) {
+    const derived = type.getDerivedStateFromProps(props, internal.state);
+    internal.state = merge(internal.state, derived, props);
+  }
+  const { state } = internal;
+
+  // shouldComponentUpdate 调用时 this.props 和 this.state 为上一次提交的值
+  let skip = false;
+  if (committed && !internal.force && instance.shouldComponentUpdate) {
+    instance.props = committed[0];
+    instance.state = committed[1];
+    skip = instance.shouldComponentUpdate(props, state) === false;
+  }
+  internal.force = false;
+  instance.props = props;
+  instance.state = state;
+
+  // 类组件上的 ref 指向组件实例
+  const ref = fiber.ref as unknown as Ref<Component>;
+  useImperativeHandle(ref, () => instance, [instance]);
+  // 生命周期在 layout 阶段执行，可以读取 DOM 并在浏览器绘制前 setState
+  useLayout(() => {
+    instance.componentDidMount?.();
+    return () => instance.componentWillUnmount?.();
+  }, []);
+  useLayout(() => {
+    internal.committed = [props, state];
+    if (committed && !skip) {
+      instance.componentDidUpdate?.(committed[0], committed[1]);
+    }
+    const callbacks = internal.callbacks;
+    internal.callbacks = [];
+    callbacks.forEach((callback) => callback.call(instance));
+  });
+
+  if (skip) {
+    fiber.memo = true;
+    return null;
+  }
+  return instance.render() as ReturnType<FC>;
+};
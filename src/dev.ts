@@ -0,0 +1,130 @@
+import { FC, Fiber, Hooks } from './type';
+import { isArr } from './h';
+import { isFn } from './reconcile';
+
+declare const process: { env: { NODE_ENV?: string } };
+
+// 是否为开发模式，生产构建中 process.env.NODE_ENV 被替换为 'production'，开发期检查随之被移除
+export const DEV = process.env.NODE_ENV !== 'production';
+
+/**
+ * 获取组件名，用于开发期的错误和警告信息
+ * @param fiber 函数组件 Fiber
+ */
+export const nameOf = (fiber: Fiber) =>
+  (fiber.type as FC).name || 'Anonymous';
+
+// 已经输出过的警告，同一位置的警告只输出一次
+const warned = new Set<string>();
+
+/**
+ * 生成组件栈，从 fiber 开始逐级向上列出组件和元素
+ * @param fiber Fiber 节点
+ */
+export const stackOf = (fiber: Fiber) => {
+  let stack = '';
+  for (; fiber; fiber = fiber.parent) {
+    if (fiber.type && fiber.type !== '#text') {
+      stack += `\n    in ${isFn(fiber.type) ? nameOf(fiber) : fiber.type}`;
+    }
+  }
+  return stack;
+};
+
+/**
+ * 开发模式下输出带有组件栈的警告
+ * @param fiber 出现问题的 Fiber 节点，可以为空
+ * @param message 警告内容
+ */
+export const warn = (fiber: Fiber, message: string) => {
+  const text = `[fre] ${message}${stackOf(fiber)}`;
+  if (!warned.has(text)) {
+    warned.add(text);
+    console.warn(text);
+  }
+};
+
+// h 自己生成的子节点数组，由组件原样传下去时不是列表，不检查 key
+const statics = new WeakSet<unknown[]>();
+
+/**
+ * 记录 h 生成的子节点数组
+ * @param kids 子节点数组
+ */
+export const markStatic = (kids: unknown[]) => {
+  statics.add(kids);
+};
+
+/**
+ * 检查列表中的子节点是否都有 key
+ * @param list 列表，如 map 生成的数组
+ * @param owner 正在渲染的组件
+ */
+export const checkListKeys = (list: unknown[], owner: Fiber) => {
+  if (statics.has(list)) return;
+  if (list.some((v) => v && typeof v === 'object' && !isArr(v) && (v as Fiber).key == null)) {
+    warn(owner, 'Each child in a list should have a unique "key" prop.');
+  }
+};
+
+/**
+ * 检查同一父节点下的子节点是否有重复的 key
+ * @param fiber 父 Fiber 节点
+ * @param kids 新的子节点
+ */
+export const checkDuplicateKeys = (fiber: Fiber, kids: Fiber[]) => {
+  const keys = new Set();
+  for (const kid of kids) {
+    if (kid.key == null) continue;
+    if (keys.has(kid.key)) {
+      warn(
+        fiber,
+        `Encountered two children with the same key "${kid.key}". ` +
+          'Keys should be unique so that components keep their identity across updates.'
+      );
+    }
+    keys.add(kid.key);
+  }
+};
+
+/**
+ * 对不能作为子节点的值发出警告：普通对象和函数
+ * @param child 子节点
+ * @param owner 正在渲染的组件
+ */
+export const checkChild = (child: unknown, owner: Fiber) => {
+  warn(
+    owner,
+    isFn(child)
+      ? 'Functions are not valid as a child. ' +
+          'This may happen if you return a component instead of <Component /> from render.'
+      : `Objects are not valid as a child (found: object with keys {${Object.keys(child).join(', ')}}). ` +
+          'If you meant to render a collection of children, use an array instead.'
+  );
+};
+
+// 已经卸载的组件的 hooks，用于检查卸载后的状态更新
+const unmounted = new WeakSet<Hooks>();
+
+/**
+ * 记录组件已卸载
+ * @param fiber 函数组件 Fiber
+ */
+export const markUnmounted = (fiber: Fiber) => {
+  if (fiber.hooks) unmounted.add(fiber.hooks);
+};
+
+/**
+ * 检查是否在组件卸载后更新状态，通常是 effect 中的订阅或定时器没有清理
+ * @param fiber 函数组件 Fiber
+ */
+export const checkUnmounted = (fiber: Fiber) => {
+  if (unmounted.has(fiber.hooks)) {
+    warn(
+      fiber,
+      "Can't perform a state update on an unmounted component. " +
+        'This is a no-op, but it indicates a memory leak. ' +
+        'Cancel all subscriptions and asynchronous tasks in the effect cleanup.'
+    );
+  }
+};
@@ -0,0 +1,76 @@
+import { kindsOf } from './hook';
+import { isFn } from './reconcile';
+import { DevtoolsHook, DevtoolsNode, FC, Fiber, HookList } from './type';
+
+declare global {
+  interface Window {
+    __FRE_DEVTOOLS_HOOK__?: DevtoolsHook;
+  }
+}
+
+/**
+ * 获取页面上的开发者工具 hook，没有注入时返回 null
+ */
+export const getHook = () =>
+  (typeof window !== 'undefined' && window.__FRE_DEVTOOLS_HOOK__) || null;
+
+/**
+ * 将 hook 槽转换为开发者工具看到的形式
+ * 状态槽为 [value, dispatch]，effect 槽为 [callback, deps, cleanup]，memo 槽为 [value, deps]
+ * @param slot hook 槽
+ * @param kind 开发模式下记录的 hook 种类
+ */
+const inspectSlot = (slot: HookList, kind?: string) =>
+  isFn(slot[1])
+    ? { kind, value: slot[0], dispatch: slot[1] }
+    : isFn(slot[0])
+    ? { kind, value: slot[1] }
+    : { kind, value: slot[0] };
+
+/**
+ * 从 fiber 的 kids 生成开发者工具的节点树，文本节点被忽略
+ * @param kids 子 Fiber 节点
+ * @param path 父节点的路径
+ */
+const inspect = (kids: Fiber[] = [], path = ''): DevtoolsNode[] =>
+  kids
+    .filter((kid) => kid.type !== '#text')
+    .map((kid, i) => {
+      const id = path + i;
+      const props = {};
+      for (const name in kid.props) {
+        // h 中移除的 key 和 ref 仍以 undefined 留在 props 上
+        if (name !== 'children' && kid.props[name] !== undefined) {
+          props[name] = kid.props[name];
+        }
+      }
+      const kinds = kid.hooks ? kindsOf(kid.hooks) : [];
+      return {
+        id,
+        name: isFn(kid.type) ? (kid.type as FC).name || 'Anonymous' : kid.type,
+        key: kid.key ?? null,
+        props,
+        hooks: kid.hooks
+          ? kid.hooks.list.map((slot, k) => inspectSlot(slot, kinds[k]))
+          : [],
+        children: inspect(kid.kids, id + '.'),
+      };
+    });
+
+/**
+ * 提交完成后将整棵 fiber 树和提交耗时发送给开发者工具
+ * @param fiber 本次渲染的根 Fiber 节点
+ * @param duration 提交耗时（毫秒）
+ */
+export const emit = (fiber: Fiber, duration: number) => {
+  const hook = getHook();
+  if (!hook) return;
+  let root = fiber;
+  while (root.parent) root = root.parent;
+  hook.onCommit({
+    tree: inspect(root.kids),
+    fiber,
+    duration,
+    timestamp: performance.now(),
+  });
+};
@@ -1,5 +1,6 @@
-import { FiberHost, HTMLElementEx, PropsOf, TAG } from './type';
+import { Fiber, FiberHost, HTMLElementEx, PropsOf, TAG } from './type';
 import { isStr } from './reconcile';
+import { isEvent } from './event';
 
 // 默认空对象常量，用于属性比较时的默认值
 const defaultObj = {} as const;
@@ -51,15 +52,15 @@ export const updateElement = (
         }
       });
     }
-    // 处理事件监听器（以 'on' 开头的属性）
-    else if (name[0] === 'o' && name[1] === 'n') {
-      name = name.slice(2).toLowerCase(); // 移除 'on' 前缀并转为小写
-      if (a) dom.removeEventListener(name, a); // 移除旧的事件监听器
-      dom.addEventListener(name, b); // 添加新的事件监听器
+    // 事件（以 'on' 开头的属性）委托到容器上，提交时由 event.ts 绑定
+    else if (isEvent(name)) {
     }
-    // 处理 DOM 元素的直接属性（如 value、checked 等）
+    // 表单元素的受控属性在提交后由 restoreControlled 统一设置
+    else if (isControlled(dom, name)) {
+    }
+    // 处理 DOM 元素的直接属性（如 disabled、defaultValue 等）
     else if (name in dom && !(dom instanceof SVGElement)) {
-      dom[name] = b || '';
+      dom[name] = typeof dom[name] === 'boolean' ? !!b : b == null ? '' : b;
     }
     // 处理 HTML 属性，如果值为 null 或 false 则移除属性
     else if (b == null || b === false) {
@@ -74,6 +75,46 @@ export const updateElement = (
   });
 };
 
+/**
+ * 检查是否为表单元素的受控属性：input / textarea 的 value、checked，select 的 value、defaultValue
+ * @param dom DOM 元素
+ * @param name 属性名
+ */
+const isControlled = (dom: HTMLElementEx, name: string) =>
+  dom instanceof HTMLSelectElement
+    ? name === 'value' || name === 'defaultValue'
+    : (dom instanceof HTMLInputElement || dom instanceof HTMLTextAreaElement) &&
+      (name === 'value' || name === 'checked');
+
+/**
+ * 将表单元素的 DOM 状态恢复为 props，在每次提交后和事件派发后调用
+ * value 或 checked 为 null / undefined 时为非受控元素，select 的 defaultValue 只在挂载时生效
+ * @param fiber 宿主 Fiber 节点
+ */
+export const restoreControlled = (fiber: FiberHost) => {
+  const dom = fiber.node as HTMLInputElement & HTMLSelectElement;
+  const { value, checked, defaultValue, multiple } = fiber.props;
+  if (fiber.type === 'select') {
+    const selected = value ?? (fiber.alternate ? null : defaultValue);
+    if (selected == null) return;
+    const values = (multiple ? selected : [selected]).map(String);
+    for (let i = 0; i < dom.options.length; i++) {
+      dom.options[i].selected = values.includes(dom.options[i].value);
+    }
+  } else if (fiber.type === 'input' || fiber.type === 'textarea') {
+    if (checked != null) dom.checked = !!checked;
+    // 值相同时不重新设置，避免光标跳到末尾
+    if (value != null && dom.value !== value + '') dom.value = value;
+  }
+};
+
+/**
+ * 检查 fiber 是否为需要恢复受控状态的表单元素
+ * @param fiber Fiber 节点
+ */
+export const isFormElement = (fiber: Fiber) =>
+  fiber.type === 'input' || fiber.type === 'textarea' || fiber.type === 'select';
+
 /**
  * 根据 Fiber 节点创建对应的 DOM 元素
  * @param fiber 宿主 Fiber 节点
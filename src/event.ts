@@ -0,0 +1,185 @@
+import { Fiber, FiberHost } from './type';
+import { batch, isFn } from './reconcile';
+import { isPortal } from './portal';
+import { isFormElement, restoreControlled } from './dom';
+import { schedule } from './schedule';
+
+// 事件属性名解析的结果：事件类型、是否捕获阶段、是否 passive、是否只触发一次
+interface Listener {
+  type: string;
+  capture: boolean;
+  passive: boolean;
+  once: boolean;
+}
+
+// DOM 节点到其最近一次提交的宿主 fiber 的映射，派发事件时由此找到 fiber 路径
+const fibers = new WeakMap<Node, Fiber>();
+// 每个容器上已经注册的原生监听器
+const listening = new WeakMap<Node, Set<string>>();
+// 已派发过的原生事件，按是否 passive、是否捕获阶段区分，portal 容器位于根容器内部时避免重复派发
+const dispatched = [
+  [new WeakSet<Event>(), new WeakSet<Event>()],
+  [new WeakSet<Event>(), new WeakSet<Event>()],
+];
+// 已被停止传播的原生事件，passive 与非 passive 的派发共享
+const stopped = new WeakSet<Event>();
+// 各个节点上已经触发过的 once 事件属性
+const fired = new WeakMap<Node, Set<string>>();
+// 属性名解析结果的缓存
+const parsed = new Map<string, Listener>();
+
+/**
+ * 解析事件属性名，如 onClick、onClickCapture、onTouchStartPassive、onKeyDownOnce
+ * @param name 属性名
+ */
+const parse = (name: string) => {
+  let listener = parsed.get(name);
+  if (!listener) {
+    listener = { type: '', capture: false, passive: false, once: false };
+    let rest = name.slice(2);
+    let suffix: string;
+    while ((suffix = rest.match(/(Capture|Passive|Once)$/)?.[1])) {
+      const head = rest.slice(0, -suffix.length);
+      // gotpointercapture / lostpointercapture 以 Capture 结尾但不是捕获阶段
+      if (suffix === 'Capture' && /Pointer$/.test(head)) break;
+      listener[suffix.toLowerCase()] = true;
+      rest = head;
+    }
+    listener.type = rest.toLowerCase();
+    parsed.set(name, listener);
+  }
+  return listener;
+};
+
+/**
+ * 检查属性名是否为事件
+ * @param name 属性名
+ */
+export const isEvent = (name: string) => name[0] === 'o' && name[1] === 'n';
+
+/**
+ * 获取 fiber 的事件委托容器，即最近的 portal 容器或根容器
+ * @param fiber Fiber 节点
+ */
+export const containerOf = (fiber: Fiber) => {
+  while (fiber.parent && !isPortal(fiber)) fiber = fiber.parent;
+  return (isPortal(fiber) ? fiber.props.container : fiber.node) as Node;
+};
+
+/**
+ * 提交宿主 fiber 时记录节点对应的 fiber，并确保容器上监听了它用到的事件
+ * @param fiber 宿主 Fiber 节点
+ * @param container 事件委托容器
+ */
+export const bind = (fiber: Fiber, container: Node) => {
+  fibers.set(fiber.node, fiber);
+  for (const name in fiber.props) {
+    if (isEvent(name) && fiber.props[name]) {
+      const { type, passive } = parse(name);
+      listen(container, type, passive);
+    }
+  }
+};
+
+/**
+ * 在容器上为事件类型注册捕获和冒泡两个原生监听器
+ * 捕获阶段的监听器派发 Capture 处理函数，以及不冒泡的事件的处理函数；
+ * 冒泡阶段的监听器派发冒泡的事件，与原生监听器之间的 stopPropagation 互相生效
+ * passive 的处理函数由单独的 passive 监听器派发
+ * @param container 事件委托容器
+ * @param type 事件类型
+ * @param passive 是否 passive
+ */
+const listen = (container: Node, type: string, passive: boolean) => {
+  let types = listening.get(container);
+  if (!types) listening.set(container, (types = new Set()));
+  const key = passive ? type + ' passive' : type;
+  if (types.has(key)) return;
+  types.add(key);
+  container.addEventListener(type, (e) => dispatch(e, passive, true), {
+    capture: true,
+    passive,
+  });
+  container.addEventListener(type, (e) => dispatch(e, passive, false), {
+    passive,
+  });
+};
+
+/**
+ * 沿 fiber 路径派发事件的一个阶段：捕获阶段从根到目标，冒泡阶段从目标到根
+ * 不冒泡的事件不会到达冒泡阶段的监听器，在捕获阶段之后只在目标节点上执行冒泡阶段的处理函数
+ * @param e 原生事件
+ * @param passive 是否由 passive 监听器触发
+ * @param capture 是否由捕获阶段的监听器触发
+ */
+const dispatch = (e: Event, passive: boolean, capture: boolean) => {
+  const seen = dispatched[+passive][+capture];
+  if (seen.has(e) || !(capture || e.bubbles)) return;
+  seen.add(e);
+
+  let node = e.target as Node;
+  while (node && !fibers.has(node)) node = node.parentNode;
+  if (!node) return;
+
+  // 目标到根的宿主 fiber 路径，portal 内的事件同样沿组件树冒泡
+  const path: Fiber[] = [];
+  for (let fiber = fibers.get(node); fiber; fiber = fiber.parent) {
+    if (!fiber.isComp && fiber.node && !isPortal(fiber)) path.push(fiber);
+  }
+
+  // 派发期间 currentTarget 指向当前处理函数所在的节点，stopPropagation 同时停止合成事件的传播
+  let current: Fiber = null;
+  Object.defineProperty(e, 'currentTarget', {
+    configurable: true,
+    get: () => current.node,
+  });
+  e.stopPropagation = () => {
+    stopped.add(e);
+    Event.prototype.stopPropagation.call(e);
+  };
+
+  const run = (fiber: Fiber, capture: boolean) => {
+    current = fiber;
+    for (const name in fiber.props) {
+      const handler = fiber.props[name];
+      if (!isEvent(name) || !isFn(handler)) continue;
+      const listener = parse(name);
+      if (
+        listener.type === e.type &&
+        listener.capture === capture &&
+        listener.passive === passive
+      ) {
+        if (listener.once) {
+          let names = fired.get(fiber.node);
+          if (!names) fired.set(fiber.node, (names = new Set()));
+          if (names.has(name)) continue;
+          names.add(name);
+        }
+        handler.call(fiber.node, e);
+      }
+    }
+  };
+
+  // 各个处理函数中发起的更新合并为一次渲染，两个阶段的更新在渲染开始前同样会合并
+  batch(() => {
+    if (capture) {
+      for (let i = path.length - 1; i >= 0 && !stopped.has(e); i--) {
+        run(path[i], true);
+      }
+      if (!e.bubbles && !stopped.has(e)) run(path[0], false);
+    } else {
+      for (let i = 0; i < path.length && !stopped.has(e); i++) {
+        run(path[i], false);
+      }
+    }
+  });
+  // 派发结束后恢复原生的属性和方法
+  delete (e as any).currentTarget;
+  delete e.stopPropagation;
+
+  // 处理函数拒绝输入时 DOM 会偏离 props，在本次事件引起的渲染之后恢复受控状态
+  // 只在事件最后一次派发后调度，冒泡的事件在冒泡阶段，否则在捕获阶段
+  if (isFormElement(path[0]) && (!capture || !e.bubbles || stopped.has(e))) {
+    schedule(() => restoreControlled(fibers.get(node) as FiberHost) as undefined);
+  }
+};
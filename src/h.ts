@@ -1,29 +1,42 @@
-import { isStr } from './reconcile';
-import { FC, FreNode, FreText, Fiber } from './type';
+import { isFn, isStr, useFiber } from './reconcile';
+import { DEV, checkChild, checkListKeys, markStatic } from './dev';
+import { FC, FreNode, FreText, Fiber, IntrinsicAttributes, Ref } from './type';
+import { ComponentClass } from './component';
 
 /**
  * JSX 工厂函数，用于创建虚拟 DOM 节点
  * 这是 JSX 语法的核心函数，类似于 React.createElement
- * @param type 组件类型，可以是字符串（原生标签）或函数组件
+ * @param type 组件类型，可以是字符串（原生标签）、函数组件或类组件
  * @param props 组件属性对象
  * @param kids 子节点数组
  * @returns 返回创建的虚拟 DOM 节点
  */
-export const h = (type: string | FC, props: any, ...kids: FreNode[]) => {
+export const h = (
+  type: string | FC | ComponentClass,
+  props: any,
+  ...kids: FreNode[]
+) => {
   // 确保 props 存在，避免空指针
   props = props || {};
-  // 扁平化处理子节点，将嵌套数组展平
-  kids = flat(arrayfy(props.children || kids));
+  kids = arrayfy(props.children || kids);
 
-  // 设置 children 属性，如果只有一个子节点则直接赋值，否则保持数组形式
-  if (kids.length) props.children = kids.length === 1 ? kids[0] : kids;
+  if (!isStr(type) && kids.length === 1 && isFn(kids[0])) {
+    // 组件唯一的函数子节点作为 render prop 原样传入，如 Context.Consumer
+    props.children = kids[0];
+  } else {
+    // 扁平化处理子节点，将嵌套数组展平
+    kids = flat(kids);
+    // 设置 children 属性，如果只有一个子节点则直接赋值，否则保持数组形式
+    if (kids.length) props.children = kids.length === 1 ? kids[0] : kids;
+    if (DEV && kids.length > 1) markStatic(kids);
+  }
 
   // 提取 key 和 ref 属性，这些是特殊属性需要单独处理
-  const key = props.key || null;
+  const key = props.key ?? null; // key 可以为 0
   const ref = props.ref || null;
 
   // 从 props 中移除 key 和 ref，避免传递给 DOM 元素
-  if (key) props.key = undefined;
+  if (key != null) props.key = undefined;
   if (ref) props.ref = undefined;
 
   // 创建并返回虚拟节点
@@ -46,6 +59,13 @@ const arrayfy = <T>(arr: T | T[] | null | undefined) =>
 const some = <T>(x: T | boolean | null | undefined): x is T =>
   x != null && x !== true && x !== false;
 
+/**
+ * 检查是否为虚拟节点
+ * @param x 待检查的值
+ */
+const isVnode = (x: unknown): x is Fiber =>
+  typeof x === 'object' && 'type' in (x as object);
+
 /**
  * 扁平化函数，递归展平嵌套的节点数组
  * 同时过滤掉无效节点，将字符串转换为文本节点
@@ -55,11 +75,16 @@ const some = <T>(x: T | boolean | null | undefined): x is T =>
  */
 const flat = (arr: FreNode[], target: Fiber[] = []) => {
   arr.forEach((v) => {
-    // 如果是数组，递归扁平化
-    isArr(v)
-      ? flat(v, target)
-      : // 如果是有效值，转换为 Fiber 节点并添加到目标数组
-        some(v) && target.push(isStr(v) ? createText(v) : v);
+    if (isArr(v)) {
+      // 如果是数组，递归扁平化，嵌套的数组是 map 等生成的列表，需要 key
+      if (DEV) checkListKeys(v, useFiber());
+      flat(v, target);
+    } else if (some(v)) {
+      // 如果是有效值，转换为 Fiber 节点并添加到目标数组，普通对象和函数被忽略
+      if (isStr(v)) target.push(createText(v));
+      else if (isVnode(v)) target.push(v);
+      else if (DEV) checkChild(v, useFiber());
+    }
   });
   return target;
 };
@@ -109,6 +134,24 @@ export function memo<T extends FC>(fn: T, compare?: T['shouldUpdate']) {
   return fn;
 }
 
+/**
+ * forwardRef 高阶组件，将组件上的 ref 作为第二个参数传给 render
+ * 组件可以把 ref 交给内部的元素，或配合 useImperativeHandle 暴露自定义的对象
+ * @param render 接收 props 和 ref 的渲染函数
+ * @returns 返回包装后的组件
+ */
+export function forwardRef<P extends IntrinsicAttributes, T = any>(
+  render: (props: P, ref: Ref<T>) => ReturnType<FC>
+) {
+  const Forward: FC<P & { ref?: Ref<T> }> = (props) =>
+    render(props, useFiber().ref as Ref<T>);
+  // 组件名沿用 render 的名字，便于警告和开发者工具展示
+  Object.defineProperty(Forward, 'name', {
+    value: render.name || 'ForwardRef',
+  });
+  return Forward;
+}
+
 /**
  * 数组类型检查的简写
  */
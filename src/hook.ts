@@ -2,7 +2,10 @@
 // 通过 cursor 记录当前 hook 的调用顺序，实现 hooks 的依赖和状态管理。
 // 适合学习 React hooks 的原理和简化实现。
 
-import { update, isFn, useFiber } from './reconcile';
+import { update, isFn, renderLane, useFiber } from './reconcile';
+import { getLane, runWithLane, startTransition } from './schedule';
+import { DEV, checkUnmounted, nameOf } from './dev';
+import { refer } from './commit';
 import {
   DependencyList,
   Reducer,
@@ -11,11 +14,15 @@ import {
   SetStateAction,
   EffectCallback,
   RefObject,
+  Ref,
   FreNode,
   HookList,
   HookEffect,
   HookReducer,
   HookMemo,
+  Hooks,
+  LANE,
+  TAG,
 } from './type';
 
 // 空数组常量，用于默认依赖
@@ -24,17 +31,89 @@ const EMPTY_ARR = [];
 // cursor 用于记录当前 hook 的调用顺序，实现 hooks 的依赖和状态隔离
 let cursor = 0;
 
+// 开发模式下记录组件每个 hook 槽的种类，用于检查 hook 的调用顺序和数量
+const kinds = new WeakMap<Hooks, string[]>();
+// 已完成首次渲染的组件，之后的渲染必须与记录的 hook 一致
+const rendered = new WeakSet<Hooks>();
+
+// effect 槽的种类，Offscreen 显示时据此放回对应的队列
+const effectKinds = new WeakMap<HookList, 'effect' | 'layout'>();
+// 随隐藏的 Offscreen 断开的 effect 槽，显示时重新执行
+const detached = new WeakSet<HookList>();
+
+// 状态 hook 中等待处理的更新，带有发起更新时的优先级
+interface Update<A> {
+  lane: LANE;
+  action: A;
+}
+
+// 状态 hook 的更新队列，base 为队列中第一个更新之前的状态
+interface Queue<S, A> {
+  base: S;
+  updates: Update<A>[];
+}
+
+// 有等待中的更新的状态 hook，提交后丢弃已经处理的更新，全部处理完时移除
+const queues = new WeakMap<HookList, Queue<any, any>>();
+
+// 本次渲染中处理过更新队列的状态 hook：所属 fiber、处理的更新数、第一个跳过的更新的下标、
+// 该更新之前的状态，以及跳过的更新中的最高优先级，提交时据此更新队列
+type Processed = [
+  fiber: Fiber,
+  count: number,
+  skip: number,
+  base: unknown,
+  lane: LANE
+];
+let processed = new Map<HookList, Processed>();
+
+// 本次渲染中读取过的外部 store 快照，提交前用于检查是否发生撕裂
+let snapshots: [getSnapshot: () => unknown, value: unknown][] = [];
+
 // 每次组件渲染前重置 cursor
 export const resetCursor = () => {
   cursor = 0;
 };
 
+// 每次渲染开始前清空快照记录
+export const resetSnapshots = () => {
+  snapshots = [];
+};
+
+// 每次渲染开始前清空处理过的更新队列的记录
+export const resetQueues = () => {
+  processed = new Map();
+};
+
+// 提交后丢弃已经处理的更新，优先级不够而跳过的更新及其之后的更新保留在队列中，
+// 以跳过的更新的优先级重新调度，之后的渲染在跳过的更新之前的状态上重新处理它们
+export const commitQueues = () => {
+  const list = processed;
+  processed = new Map();
+  list.forEach(([fiber, count, skip, base, lane], hook) => {
+    const queue = queues.get(hook);
+    if (!queue) return;
+    const rest = queue.updates.slice(skip < 0 ? count : skip);
+    if (rest.length) {
+      queue.base = base;
+      queue.updates = rest;
+    } else {
+      queues.delete(hook);
+    }
+    if (lane) update(fiber, lane);
+  });
+};
+
+// 检查本次渲染读取的快照是否已经过期，即渲染过程中 store 发生了变化
+export const isTorn = () =>
+  snapshots.some(([getSnapshot, value]) => !Object.is(getSnapshot(), value));
+
 // useState 实现，底层其实是 useReducer 的特例
 // initState: 初始状态
 // 返回 [state, setState]
 export const useState = <T>(initState: T) => {
   debugger;
-  return useReducer<T, SetStateAction<T>>(null, initState);
+  return reducerImpl<T, SetStateAction<T>>(null, initState, 'useState');
 };
 
 // useReducer 实现
@@ -44,29 +123,73 @@ export const useState = <T>(initState: T) => {
 export const useReducer = <S, A>(
   reducer?: Reducer<S, A>,
   initState?: S
+): [S, Dispatch<A>] => reducerImpl(reducer, initState, 'useReducer');
+
+// 状态 hook 的底层实现，kind 为用户调用的 hook 的名称，开发模式下用于检查调用顺序
+const reducerImpl = <S, A>(
+  reducer: Reducer<S, A> | null,
+  initState: S,
+  kind: string
 ): [S, Dispatch<A>] => {
   // 获取当前 hook 的存储槽和当前 fiber
-  const [hook, current] = getSlot<HookReducer>(cursor++);
+  const [hook, current] = getSlot<HookReducer>(cursor++, kind);
   // 初始化 hook 状态
   if (hook.length === 0) {
     hook[0] = initState;
   }
-  // setState 或 dispatch 的实现
-  hook[1] = (value: A | Dispatch<A>) => {
-    let v = reducer
-      ? reducer(hook[0], value as any)
-      : isFn(value)
-      ? value(hook[0])
-      : value;
-    // 只有状态变化时才触发更新
-    if (hook[0] !== v) {
-      hook[0] = v;
-      update(current);
-    }
+  // 只处理优先级不低于本次渲染的更新
+  const queue = queues.get(hook as HookReducer);
+  if (queue) hook[0] = processQueue(hook as HookReducer, queue, reducer, current);
+  // setState 或 dispatch 的实现，更新连同当前优先级放入队列，渲染时才计算新状态
+  hook[1] = (value: A) => {
+    const queue = queues.get(hook as HookReducer);
+    // 没有等待中的更新时预先计算，状态不变则不触发更新
+    if (!queue && reduce(reducer, hook[0], value) === hook[0]) return;
+    if (DEV) checkUnmounted(current);
+    const next = { lane: getLane(), action: value };
+    if (queue) queue.updates.push(next);
+    else queues.set(hook as HookReducer, { base: hook[0], updates: [next] });
+    update(current, next.lane);
   };
   return hook as Required<HookReducer>;
 };
 
+// 以 reducer 或 setState 的规则计算新状态
+const reduce = <S, A>(reducer: Reducer<S, A> | null, state: S, action: A): S =>
+  reducer
+    ? reducer(state, action)
+    : isFn(action)
+    ? action(state)
+    : (action as unknown as S);
+
+// 在 base 上依次计算优先级不低于本次渲染的更新，跳过的更新记录下来，提交后重新调度
+const processQueue = <S, A>(
+  hook: HookReducer,
+  queue: Queue<S, A>,
+  reducer: Reducer<S, A> | null,
+  fiber: Fiber
+) => {
+  const limit = renderLane();
+  let value = queue.base,
+    base = value,
+    skip = -1,
+    lane = 0;
+  queue.updates.forEach((next, i) => {
+    if (next.lane > limit) {
+      if (skip < 0) {
+        skip = i;
+        base = value;
+      }
+      if (!lane || next.lane < lane) lane = next.lane;
+    } else {
+      value = reduce(reducer, value, next.action);
+    }
+  });
+  if (skip < 0) base = value;
+  processed.set(hook, [fiber, queue.updates.length, skip, base, lane]);
+  return value;
+};
+
 // useEffect 实现，副作用钩子，异步执行
 export const useEffect = (cb: EffectCallback, deps?: DependencyList) => {
   return effectImpl(cb, deps!, 'effect');
@@ -77,27 +200,64 @@ export const useLayout = (cb: EffectCallback, deps?: DependencyList) => {
   return effectImpl(cb, deps!, 'layout');
 };
 
-// effect 的底层实现，区分 effect 和 layout
+// effect 的底层实现，区分 effect 和 layout，kind 为用户调用的 hook 的名称
 const effectImpl = (
   cb: EffectCallback,
   deps: DependencyList,
-  key: 'effect' | 'layout'
+  key: 'effect' | 'layout',
+  kind = key === 'effect' ? 'useEffect' : 'useLayout'
 ) => {
-  const [hook, current] = getSlot<HookEffect>(cursor++);
+  const [hook, current] = getSlot<HookEffect>(cursor++, kind);
+  effectKinds.set(hook as HookEffect, key);
   // 依赖变化时，保存新的回调和依赖，并加入 fiber 的 hooks 队列
+  // 被打断的渲染重新开始时，同一个 hook 可能已在队列中
   if (isChanged(hook[1], deps)) {
     hook[0] = cb;
     hook[1] = deps;
-    current.hooks[key].push(hook as Required<HookEffect>);
+    // 隐藏的 Offscreen 中的 effect 在显示时才执行
+    if (current.lane & TAG.HIDDEN) detached.add(hook as HookEffect);
+    if (detached.has(hook as HookEffect)) return;
+    const effects = current.hooks[key];
+    if (effects.indexOf(hook as Required<HookEffect>) < 0) {
+      effects.push(hook as Required<HookEffect>);
+    }
   }
 };
 
+// Offscreen 隐藏时断开组件的 effects：执行清理函数，丢弃队列中尚未执行的 effects
+export const disconnect = (hooks: Hooks) => {
+  hooks.list.forEach((slot) => {
+    if (!effectKinds.has(slot)) return;
+    const effect = slot as HookEffect;
+    const cleanup = effect[2];
+    effect[2] = undefined;
+    detached.add(slot);
+    cleanup && cleanup();
+  });
+  hooks.effect.length = hooks.layout.length = 0;
+};
+
+// Offscreen 显示时将断开的 effects 放回队列，由调用方执行
+export const reconnect = (hooks: Hooks) => {
+  hooks.list.forEach((slot) => {
+    if (!detached.has(slot)) return;
+    detached.delete(slot);
+    const effects = hooks[effectKinds.get(slot)];
+    if (effects.indexOf(slot as Required<HookEffect>) < 0) {
+      effects.push(slot as Required<HookEffect>);
+    }
+  });
+};
+
 // useMemo 实现，依赖不变时缓存计算结果
 export const useMemo = <S = Function>(
   cb: () => S,
   deps?: DependencyList
-): S => {
-  const hook = getSlot<HookMemo>(cursor++)[0];
+): S => memoImpl(cb, deps, 'useMemo');
+
+// 缓存 hook 的底层实现，kind 为用户调用的 hook 的名称
+const memoImpl = <S>(cb: () => S, deps: DependencyList, kind: string): S => {
+  const hook = getSlot<HookMemo>(cursor++, kind)[0];
   // 依赖变化时重新计算
   if (isChanged(hook[1], deps!)) {
     hook[1] = deps;
@@ -111,20 +271,150 @@ export const useCallback = <T extends (...args: any[]) => void>(
   cb: T,
   deps?: DependencyList
 ): T => {
-  return useMemo(() => cb, deps);
+  return memoImpl(() => cb, deps, 'useCallback');
 };
 
 // useRef 实现，返回一个可变的 ref 对象
 export const useRef = <T>(current: T): RefObject<T> => {
-  return useMemo(() => ({ current }), []);
+  return memoImpl(() => ({ current }), [], 'useRef');
+};
+
+// useImperativeHandle 实现，在 layout 阶段将 create 返回的对象赋给 ref
+// 依赖或 ref 变化时先清除旧的赋值，组件卸载时赋值为 null
+export const useImperativeHandle = <T>(
+  ref: Ref<T>,
+  create: () => T,
+  deps?: DependencyList
+) => {
+  effectImpl(
+    () => {
+      refer(ref, create());
+      return () => refer(ref, null);
+    },
+    deps && [...deps, ref],
+    'layout',
+    'useImperativeHandle'
+  );
+};
+
+// useTransition 实现，返回 [isPending, startTransition]
+// isPending 先以当前优先级渲染为 true；回调同步执行，其中的更新与 isPending 变回 false 一起以 TRANSITION 优先级渲染
+// 过渡渲染被打断或放弃时 isPending 保持为 true
+export const useTransition = (): [boolean, (cb: () => void) => void] => {
+  const [isPending, setPending] = reducerImpl<boolean, boolean>(
+    null,
+    false,
+    'useTransition'
+  );
+  const start = memoImpl(() => (cb: () => void) => {
+    setPending(true);
+    runWithLane(LANE.TRANSITION, () => {
+      setPending(false);
+      cb();
+    });
+  }, EMPTY_ARR, 'useTransition');
+  return [isPending, start];
+};
+
+// useDeferredValue 实现，紧急渲染时先返回旧值，再以 TRANSITION 优先级渲染新值
+// 新值的渲染可以被更紧急的更新打断，value 再次变化时以最新值重新渲染
+export const useDeferredValue = <T>(value: T): T => {
+  const [deferred, setDeferred] = reducerImpl<T, T>(
+    null,
+    value,
+    'useDeferredValue'
+  );
+  effectImpl(
+    () => {
+      startTransition(() => setDeferred(value));
+    },
+    [value],
+    'effect',
+    'useDeferredValue'
+  );
+  return deferred;
+};
+
+// useSyncExternalStore 实现，订阅外部 store 并读取其快照
+// 服务端渲染和水合时使用 getServerSnapshot，保证与服务端输出一致
+// 读取的快照会被记录，提交前若 store 已变化则同步重新渲染，避免撕裂
+export const useSyncExternalStore = <T>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => T,
+  getServerSnapshot?: () => T
+): T => {
+  const kind = 'useSyncExternalStore';
+  // 先取得 hook 槽，在组件外调用时由 getSlot 给出错误提示
+  const forceUpdate = reducerImpl<object, object>(null, null, kind)[1];
+  const isServer = useFiber().lane & (TAG.SERVER | TAG.HYDRATE);
+  const value =
+    isServer && getServerSnapshot ? getServerSnapshot() : getSnapshot();
+  if (!isServer) snapshots.push([getSnapshot, value]);
+
+  const inst = memoImpl(() => ({ value, getSnapshot }), EMPTY_ARR, kind);
+  const check = () => {
+    let changed = true;
+    try {
+      changed = !Object.is(inst.value, inst.getSnapshot());
+    } catch (e) {}
+    // store 变化时以同步优先级更新
+    if (changed) runWithLane(LANE.SYNC, () => forceUpdate({}));
+  };
+
+  effectImpl(
+    () => {
+      inst.value = value;
+      inst.getSnapshot = getSnapshot;
+      check();
+    },
+    [subscribe, value, getSnapshot],
+    'layout',
+    kind
+  );
+
+  effectImpl(
+    () => {
+      // 订阅前 store 可能已经变化
+      check();
+      return subscribe(check);
+    },
+    [subscribe],
+    'effect',
+    kind
+  );
+
+  return value;
+};
+
+// useId 实现，根据组件在 fiber 树中的位置（各级在父节点 kids 中的下标）和 hook 顺序生成 id
+// 服务端渲染和水合时 fiber 树的结构相同，生成的 id 保持一致；根 fiber 上的前缀区分不同的根节点
+export const useId = (): string => {
+  const slot = cursor;
+  return memoImpl(() => {
+    const path = [];
+    let fiber = useFiber();
+    // 根 fiber 没有 parent，不参与计算
+    for (; fiber.parent; fiber = fiber.parent) path.unshift(fiber.index);
+    return `fre-${fiber.prefix || ''}${path.join('-')}_${slot}`;
+  }, EMPTY_ARR, 'useId');
 };
 
-// 获取当前 fiber 的第 cursor 个 hook 槽
-export const getSlot = <T extends HookList = HookList>(cursor: number) => {
+// 获取当前 fiber 的第 cursor 个 hook 槽，kind 为 hook 的种类，开发模式下用于检查调用顺序
+export const getSlot = <T extends HookList = HookList>(
+  cursor: number,
+  kind?: string
+) => {
   const current: Fiber = useFiber();
+  if (DEV && !current) {
+    throw new Error(
+      `[fre] ${kind} was called outside of a function component. ` +
+        'Hooks can only be called while a component is rendering.'
+    );
+  }
   // hooks 挂载在 fiber 上，包含 list/effect/layout 三类
   const hooks =
     current.hooks || (current.hooks = { list: [], effect: [], layout: [] });
+  if (DEV) checkKind(current, cursor, kind);
   // 如果当前槽不存在则初始化
   if (cursor >= hooks.list.length) {
     hooks.list.push([] as any);
@@ -133,70 +423,181 @@ export const getSlot = <T extends HookList = HookList>(cursor: number) => {
   return [hooks.list[cursor], current] as unknown as [Partial<T>, Fiber];
 };
 
-// ContextType 类型，定义 context 组件和初始值
+// 开发模式下获取组件各个 hook 槽的种类，供开发者工具展示
+export const kindsOf = (hooks: Hooks) => kinds.get(hooks) || EMPTY_ARR;
+
+// 开发模式下检查 hook 槽的种类：首次渲染时记录，之后的渲染必须与之一致
+const checkKind = (fiber: Fiber, cursor: number, kind: string) => {
+  let list = kinds.get(fiber.hooks);
+  if (!list) kinds.set(fiber.hooks, (list = []));
+  if (!rendered.has(fiber.hooks)) {
+    list[cursor] = kind;
+  } else if (cursor >= list.length) {
+    throw new Error(
+      `[fre] ${nameOf(fiber)} rendered more hooks than during the previous render: ` +
+        `hook #${cursor + 1} (${kind}) was not called before. ` +
+        'Hooks must not be called conditionally.'
+    );
+  } else if (list[cursor] !== kind) {
+    throw new Error(
+      `[fre] The order of hooks changed in ${nameOf(fiber)}: ` +
+        `hook #${cursor + 1} was ${list[cursor]} and is now ${kind}. ` +
+        'Hooks must be called in the same order on every render.'
+    );
+  }
+};
+
+// 开发模式下，组件渲染完成后检查本次调用的 hook 数量是否少于之前的渲染
+export const checkHooks = (fiber: Fiber) => {
+  if (!fiber.hooks) return;
+  const list = kinds.get(fiber.hooks);
+  if (rendered.has(fiber.hooks) && cursor < list.length) {
+    throw new Error(
+      `[fre] ${nameOf(fiber)} rendered fewer hooks than during the previous render: ` +
+        `expected ${list.length} but got ${cursor}. ` +
+        'This may be caused by an early return before a hook call.'
+    );
+  }
+  rendered.add(fiber.hooks);
+};
+
+// Provider 的 props：提供给子树的 value
+export interface ProviderProps<T> {
+  value: T;
+  children?: FreNode;
+}
+
+// Consumer 的 props：以 context 的值渲染子节点的函数
+export interface ConsumerProps<T> {
+  children: (value: T) => FreNode;
+}
+
+// ContextType 类型，context 本身即为 Provider 组件，同时带有 Consumer 和初始值
 export type ContextType<T> = {
-  ({ value, children }: { value: T; children: FreNode }): FreNode;
+  (props: ProviderProps<T>): FreNode;
+  Provider: (props: ProviderProps<T>) => FreNode;
+  Consumer: (props: ConsumerProps<T>) => FreNode;
   initialValue: T;
 };
 
-type SubscriberCb = () => void;
+// context 组件保存在第一个 hook 槽中的状态：当前 value 和订阅它的消费者
+interface ContextState<T> {
+  value: T;
+  subscribers: Set<Subscriber<T>>;
+}
+
+// 消费者的订阅：所属 context 的状态、最近一次渲染使用的 selector 和选取结果
+interface Subscriber<T> {
+  source: ContextState<T> | null;
+  select: (value: T) => unknown;
+  selected: unknown;
+  update: Dispatch<object>;
+  check: () => void;
+}
 
-// 创建 context，返回一个 context 组件
+// 创建 context，返回的 context 组件即为 Provider
+// 消费者读取最近的 Provider 的值，嵌套的同一 context 的 Provider 会遮蔽外层
+// 外层 value 的变化不会通知内层 Provider 之下的消费者
 export const createContext = <T>(initialValue: T): ContextType<T> => {
-  const contextComponent: ContextType<T> = ({ value, children }) => {
-    // 用 ref 保存当前 value
-    const valueRef = useRef(value);
-    // 用 set 保存所有订阅者
-    const subscribers = useMemo(() => new Set<SubscriberCb>(), EMPTY_ARR);
-
-    // value 变化时通知所有订阅者
-    if (valueRef.current !== value) {
-      valueRef.current = value;
-      subscribers.forEach((subscriber) => subscriber());
-    }
+  const Provider = (({ value, children }) => {
+    const state = useMemo<ContextState<T>>(
+      () => ({ value, subscribers: new Set() }),
+      EMPTY_ARR
+    );
+    // 子树在本次渲染中读取最新的 value
+    state.value = value;
+
+    // 子树渲染完成后再通知订阅者，随本次渲染已经更新过的消费者选取结果不变，不会重复渲染
+    // 位于被跳过的 memo 子树中的消费者由此单独调度更新
+    useLayout(() => {
+      state.subscribers.forEach((subscriber) => subscriber.check());
+    }, [value]);
 
     return children;
-  };
-  contextComponent.initialValue = initialValue;
-  return contextComponent;
+  }) as ContextType<T>;
+  const Consumer = ({ children }: ConsumerProps<T>) =>
+    children(useContext(Provider));
+  Provider.Provider = Provider;
+  Provider.Consumer = Consumer;
+  Provider.initialValue = initialValue;
+  return Provider;
 };
 
-// useContext 实现，获取 context 的值
-export const useContext = <T>(contextType: ContextType<T>) => {
-  let subscribersSet: Set<Function>;
-
-  // 触发组件更新的回调
-  const triggerUpdate = useReducer(null, null)[1] as SubscriberCb;
+// 向上查找最近的 context 组件，返回其状态，没有找到时返回 null
+const lookup = <T>(fiber: Fiber, contextType: ContextType<T>) => {
+  while (fiber && fiber.type !== contextType) fiber = fiber.parent;
+  return fiber
+    ? (fiber.hooks.list[0][0] as unknown as ContextState<T>)
+    : null;
+};
 
-  // 组件卸载时取消订阅
-  useEffect(() => {
-    return () => subscribersSet && subscribersSet.delete(triggerUpdate);
-  }, EMPTY_ARR);
+// useContextSelector 实现，读取 context 的值中由 selector 选取的部分
+// 只有选取结果按 Object.is 比较发生变化时才会重新渲染
+// 所属的 context 组件只在首次渲染时查找一次，之后保存在 hook 槽中
+export const useContextSelector = <T, S>(
+  contextType: ContextType<T>,
+  selector: (value: T) => S
+): S => contextImpl(contextType, selector, 'useContextSelector');
 
-  // 向上查找 context fiber
-  let contextFiber = useFiber().parent;
-  while (contextFiber && contextFiber.type !== contextType) {
-    contextFiber = contextFiber.parent;
+// context hook 的底层实现，kind 为用户调用的 hook 的名称
+const contextImpl = <T, S>(
+  contextType: ContextType<T>,
+  selector: (value: T) => S,
+  kind: string
+): S => {
+  const forceUpdate = reducerImpl<object, object>(null, null, kind)[1];
+  const subscriber = memoImpl<RefObject<Subscriber<T>>>(
+    () => ({ current: null }),
+    EMPTY_ARR,
+    kind
+  );
+  let sub = subscriber.current;
+  if (!sub) {
+    sub = subscriber.current = {
+      source: lookup(useFiber().parent, contextType),
+      select: selector,
+      selected: undefined,
+      update: forceUpdate,
+      check: () => {
+        let changed = true;
+        try {
+          changed = !Object.is(sub.selected, sub.select(sub.source.value));
+        } catch (e) {}
+        if (changed) sub.update({});
+      },
+    };
   }
+  const { source } = sub;
+  const selected = selector(source ? source.value : contextType.initialValue);
+  sub.select = selector;
+  sub.selected = selected;
+  sub.update = forceUpdate;
 
-  if (contextFiber) {
-    // 获取 context fiber 的 value 和 subscribers
-    const hooks = contextFiber.hooks.list as unknown as [
-      [RefObject<T>],
-      [Set<SubscriberCb>]
-    ];
-    const [[value], [subscribers]] = hooks;
-
-    // 订阅 context 更新
-    subscribersSet = subscribers.add(triggerUpdate);
-
-    return value.current;
-  } else {
-    // 没有找到 context，返回初始值
-    return contextType.initialValue;
-  }
+  // 提交后订阅，组件卸载时取消订阅
+  effectImpl(
+    () => {
+      if (!source) return;
+      source.subscribers.add(sub);
+      // 订阅前 value 可能已经变化
+      sub.check();
+      return () => {
+        source.subscribers.delete(sub);
+      };
+    },
+    EMPTY_ARR,
+    'effect',
+    kind
+  );
+
+  return selected;
 };
 
+const identity = <T>(value: T) => value;
+
+// useContext 实现，获取 context 的值，value 变化时重新渲染
+export const useContext = <T>(contextType: ContextType<T>) =>
+  contextImpl(contextType, identity, 'useContext');
+
 // 判断依赖是否变化
 export const isChanged = (a: DependencyList | undefined, b: DependencyList) => {
   return (
@@ -0,0 +1,136 @@
+import { Fiber, FiberHost, FC, TAG } from './type';
+import { createElement } from './dom';
+import { DEV } from './dev';
+
+// 每个 DOM 父节点下一个待认领的子节点
+const cursors = new WeakMap<Node, ChildNode | null>();
+
+/**
+ * 获取 DOM 父节点下一个待认领的子节点
+ * @param parent DOM 父节点
+ */
+const next = (parent: Node) =>
+  cursors.has(parent) ? cursors.get(parent) : parent.firstChild;
+
+/**
+ * 获取 fiber 在 DOM 中的父节点，即最近的非组件祖先的节点
+ * @param fiber Fiber 节点
+ */
+const domParent = (fiber: Fiber) => {
+  let parent = fiber.parent;
+  while (parent.isComp) parent = parent.parent;
+  return parent.node as Node;
+};
+
+/**
+ * 是否为可以忽略的节点：空白文本（服务端输出中的换行和缩进）或注释
+ * @param node DOM 节点
+ */
+const isIgnorable = (node: Node) =>
+  node.nodeType === 8 || (node.nodeType === 3 && !node.nodeValue.trim());
+
+/**
+ * 生成 fiber 在组件树中的路径，用于警告信息，如 App > div > span
+ * @param fiber Fiber 节点
+ */
+const pathOf = (fiber: Fiber) => {
+  const path = [];
+  for (; fiber?.type; fiber = fiber.parent) {
+    path.unshift((fiber.type as FC).name || fiber.type);
+  }
+  return path.join(' > ');
+};
+
+/**
+ * 描述一个 DOM 节点，用于警告信息
+ * @param node DOM 节点
+ */
+const describe = (node: Node) =>
+  !node
+    ? 'nothing'
+    : node.nodeType === 3
+    ? `text "${node.nodeValue}"`
+    : `<${node.nodeName.toLowerCase()}>`;
+
+/**
+ * 开发模式下输出水合不匹配的警告
+ * @param fiber 出现不匹配的 Fiber 节点
+ * @param message 警告内容
+ */
+const warn = (fiber: Fiber, message: string) => {
+  if (DEV) {
+    console.warn(`[fre] hydration mismatch at ${pathOf(fiber)}: ${message}`);
+  }
+};
+
+/**
+ * 认领宿主 fiber 对应的已有 DOM 节点，事件在提交时委托到容器上
+ * 标签不匹配时在原位置替换为新建的节点，其子树不再水合
+ * @param fiber 宿主 Fiber 节点
+ * @returns 返回认领或新建的 DOM 节点
+ */
+export const claim = (fiber: FiberHost) => {
+  const parent = domParent(fiber);
+  const isText = fiber.type === '#text';
+  const text = isText && fiber.props.nodeValue + '';
+  // 空文本在服务端输出中没有对应的节点，直接新建并插入到当前位置
+  if (text === '') {
+    const created = createElement(fiber);
+    const node = next(parent);
+    parent.insertBefore(created, node);
+    fiber.action = null;
+    fiber.lane &= ~TAG.HYDRATE;
+    cursors.set(parent, node);
+    return created;
+  }
+  let node = next(parent);
+  // 空白文本只由同样是空白的文本 fiber 认领
+  while (node && isIgnorable(node) && !(isText && !text.trim() && node.nodeType === 3)) {
+    node = node.nextSibling;
+  }
+
+  // 已有节点就在正确的位置上，不需要再插入
+  fiber.action = null;
+
+  if (!node || node.nodeName.toLowerCase() !== fiber.type.toLowerCase()) {
+    warn(fiber, `expected <${fiber.type}> but found ${describe(node)}`);
+    const created = createElement(fiber);
+    // 用新建的节点替换不匹配的节点，之后的兄弟节点继续水合
+    node ? parent.replaceChild(created, node) : parent.appendChild(created);
+    fiber.lane &= ~TAG.HYDRATE;
+    cursors.set(parent, created.nextSibling);
+    return created;
+  }
+
+  // 服务端相邻的文本会合并为一个文本节点，按长度拆分
+  if (isText) {
+    if (node.nodeValue.length > text.length && node.nodeValue.startsWith(text)) {
+      (node as Text).splitText(text.length);
+    } else if (node.nodeValue !== text) {
+      warn(fiber, `expected text "${text}" but found ${describe(node)}`);
+      node.nodeValue = text;
+    }
+  }
+
+  cursors.set(parent, node.nextSibling);
+  return node as Fiber['node'];
+};
+
+/**
+ * 宿主 fiber 的子节点全部认领完成后，移除服务端多出来的节点
+ * @param fiber 宿主 Fiber 节点
+ */
+export const finish = (fiber: Fiber) => {
+  const parent = fiber.node as Node;
+  let node = next(parent);
+  cursors.delete(parent);
+  if (fiber.props.innerHTML != null) return;
+  while (node) {
+    const sibling = node.nextSibling;
+    if (!isIgnorable(node)) {
+      warn(fiber, `unexpected ${describe(node)}`);
+      parent.removeChild(node);
+    }
+    node = sibling;
+  }
+};
@@ -1,5 +1,6 @@
-export { h, Fragment, h as createElement, memo } from './h'
-export { render } from './reconcile'
+export { h, Fragment, h as createElement, memo, forwardRef } from './h'
+export { Component } from './component'
+export { render, hydrate, createRoot, batch, flushSync } from './reconcile'
 export {
   useState,
   useReducer,
@@ -10,7 +11,22 @@ export {
   useLayout,
   useLayout as useLayoutEffect,
   useContext,
+  useContextSelector,
   createContext,
+  useTransition,
+  useDeferredValue,
+  useSyncExternalStore,
+  useId,
+  useImperativeHandle,
 } from './hook'
-export { shouldYield, schedule as startTranstion } from './schedule'
+export { lazy, Suspense } from './suspense'
+export { ErrorBoundary } from './boundary'
+export { Profiler } from './profiler'
+export { Offscreen } from './offscreen'
+export { createPortal } from './portal'
+export {
+  shouldYield,
+  startTransition,
+  startTransition as startTranstion,
+} from './schedule'
 export * from './type'
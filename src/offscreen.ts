@@ -0,0 +1,140 @@
+import { disconnect, reconnect, useRef } from './hook';
+import { report } from './boundary';
+import { isPortal } from './portal';
+import { runEffects, useFiber } from './reconcile';
+import { FC, Fiber, FreNode, HookMemo, RefObject, TAG } from './type';
+
+export interface OffscreenProps {
+  mode?: 'hidden' | 'visible';
+  children?: FreNode;
+}
+
+// 隐藏前元素的 display 或文本节点的内容，显示时恢复
+const stash = new WeakMap<Node, string>();
+
+// 冻结的 Offscreen 不重新渲染子树，沿用上一次提交的子节点，用于 Suspense 挂起时保留的子树
+const frozen = new WeakSet<Fiber>();
+
+/**
+ * Offscreen 组件，隐藏时保留子树的 fiber、状态和 DOM，只将 DOM 隐藏并断开 effects，
+ * 显示时恢复 DOM 并重新执行 effects；隐藏的子树中的更新以空闲优先级渲染
+ * 上一次提交时子树是否隐藏保存在第 0 个 hook 槽中，由 commitOffscreen 比较
+ * @param props mode 与 children
+ */
+export const Offscreen: FC<OffscreenProps> = ({ mode, children }) => {
+  useRef<boolean>(null);
+  const fiber = useFiber();
+  // 子节点在 reconcileChidren 中继承 HIDDEN，外层 Offscreen 隐藏时本身已带有该标记
+  if (mode === 'hidden') fiber.lane |= TAG.HIDDEN;
+  // 与类组件跳过更新一样标记为 memo，子节点保持不变
+  if (frozen.has(fiber) && fiber.alternate) {
+    fiber.memo = true;
+    return null;
+  }
+  return children as ReturnType<FC>;
+};
+
+/**
+ * 冻结 Offscreen vnode，渲染时跳过子树，提交时仍然切换隐藏状态
+ * @param vnode Offscreen vnode
+ */
+export const freeze = (vnode: Fiber) => {
+  frozen.add(vnode);
+  return vnode;
+};
+
+/**
+ * 获取 Offscreen fiber 上一次提交时的隐藏状态
+ * @param fiber Offscreen fiber
+ */
+const stateOf = (fiber: Fiber) =>
+  (fiber.hooks.list[0] as HookMemo<RefObject<boolean>>)[0];
+
+/**
+ * 隐藏或显示宿主节点：元素设置 display 为 none，文本节点清空内容
+ * @param node 宿主 DOM 节点
+ * @param hidden 是否隐藏
+ */
+const hide = (node: Node, hidden: boolean) => {
+  const text = node.nodeType === 3;
+  if (hidden) {
+    // 已隐藏的元素保留最初的 display；文本节点记录更新后的内容
+    if (text ? node.nodeValue !== '' : !stash.has(node)) {
+      stash.set(node, text ? node.nodeValue : (node as HTMLElement).style.display);
+    }
+    if (text) node.nodeValue = '';
+    else (node as HTMLElement).style.display = 'none';
+  } else if (stash.has(node)) {
+    if (text) node.nodeValue = stash.get(node);
+    else (node as HTMLElement).style.display = stash.get(node);
+    stash.delete(node);
+  }
+};
+
+/**
+ * 提交隐藏的 Offscreen 中的宿主节点时，最外层的节点保持隐藏，
+ * 包括隐藏期间新插入的节点和更新了内容的文本节点
+ * @param fiber 带有 HIDDEN 标记的宿主 Fiber 节点
+ */
+export const commitHidden = (fiber: Fiber) => {
+  let parent = fiber.parent;
+  while (parent.isComp) parent = parent.parent;
+  if (!(parent.lane & TAG.HIDDEN)) hide(fiber.node, true);
+};
+
+/**
+ * 提交 Offscreen 时，隐藏状态与上一次提交不同则切换整个子树
+ * @param fiber Offscreen fiber
+ */
+export const commitOffscreen = (fiber: Fiber) => {
+  const state = stateOf(fiber);
+  const hidden = !!(fiber.lane & TAG.HIDDEN);
+  // 首次提交时子树已按标记处理，无需切换
+  if (state.current !== null && state.current !== hidden) {
+    toggle(fiber, hidden, true);
+  }
+  state.current = hidden;
+};
+
+/**
+ * 切换子树的隐藏状态：更新 HIDDEN 标记，断开或恢复组件的 effects，隐藏或显示最外层的宿主节点
+ * 内层隐藏的 Offscreen 保持原状，portal 中的节点不在此处隐藏
+ * @param fiber 父 Fiber 节点
+ * @param hidden 是否隐藏
+ * @param top 子节点是否为最外层的宿主节点
+ */
+const toggle = (fiber: Fiber, hidden: boolean, top: boolean) => {
+  fiber.kids?.forEach((kid) => {
+    if (kid.type === Offscreen) {
+      if (kid.props.mode === 'hidden') return;
+      stateOf(kid).current = hidden;
+    }
+    if (hidden) kid.lane |= TAG.HIDDEN;
+    else kid.lane &= ~TAG.HIDDEN;
+
+    if (!kid.isComp) {
+      if (top && !isPortal(kid)) hide(kid.node, hidden);
+      toggle(kid, hidden, false);
+    } else if (hidden) {
+      // 隐藏时先断开外层的 effects，显示时先执行内层的 effects
+      if (kid.hooks) guard(kid, () => disconnect(kid.hooks));
+      toggle(kid, hidden, top);
+    } else {
+      toggle(kid, hidden, top);
+      if (kid.hooks) guard(kid, () => (reconnect(kid.hooks), runEffects(kid)));
+    }
+  });
+};
+
+/**
+ * 执行回调，抛出的错误交给最近的 ErrorBoundary
+ * @param fiber 回调所属的 Fiber 节点
+ * @param cb 回调函数
+ */
+const guard = (fiber: Fiber, cb: () => void) => {
+  try {
+    cb();
+  } catch (e) {
+    report(fiber, e);
+  }
+};
@@ -0,0 +1,164 @@
+import { h } from './h';
+import { useEffect, useState } from './hook';
+import { isFn } from './reconcile';
+import { getHook } from './devtools';
+import { DevtoolsCommit, DevtoolsHook, DevtoolsNode, FC, Fiber } from './type';
+
+/**
+ * 注入开发者工具 hook，已有 hook 时在其基础上增加订阅能力
+ * @returns 返回页面上的开发者工具 hook
+ */
+export const installDevtools = () => {
+  const hook: DevtoolsHook = getHook() || { onCommit() {} };
+  if (!hook.subscribe) {
+    const listeners = new Set<(commit: DevtoolsCommit) => void>();
+    const onCommit = hook.onCommit;
+    hook.onCommit = (commit) => {
+      hook.last = commit;
+      onCommit(commit);
+      listeners.forEach((listener) => listener(commit));
+    };
+    hook.subscribe = (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    };
+  }
+  window.__FRE_DEVTOOLS_HOOK__ = hook;
+  return hook;
+};
+
+/**
+ * 将任意值格式化为一行文本
+ * @param value 要展示的值
+ */
+const format = (value: unknown) => {
+  if (isFn(value)) return `ƒ ${value.name || 'anonymous'}()`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (e) {
+    return String(value);
+  }
+};
+
+/**
+ * 按深度优先顺序展开节点树，并记录每个节点的深度
+ * @param tree 节点树
+ * @param depth 当前深度
+ */
+const flatten = (
+  tree: DevtoolsNode[],
+  depth = 0,
+  rows: [DevtoolsNode, number][] = []
+) => {
+  tree.forEach((node) => {
+    // 面板自身不展示
+    if (node.name === DevtoolsPanel.name) return;
+    rows.push([node, depth]);
+    flatten(node.children, depth + 1, rows);
+  });
+  return rows;
+};
+
+/**
+ * 检查提交是否来自面板自身的更新，避免面板更新后再次触发自身更新
+ * @param fiber 提交的根 Fiber 节点
+ */
+const isPanelCommit = (fiber: Fiber) => {
+  for (; fiber; fiber = fiber.parent) {
+    if (fiber.type === DevtoolsPanel) return true;
+  }
+  return false;
+};
+
+/**
+ * 选中节点的详情：props 和 hooks，状态 hook 可以输入 JSON 修改
+ * @param props 选中的节点
+ */
+const Inspector: FC<{ node: DevtoolsNode }> = ({ node }) =>
+  h(
+    'div',
+    { style: { borderTop: '1px solid #444', padding: '4px 0' } },
+    h('b', null, `<${node.name}>`),
+    Object.keys(node.props).map((name) =>
+      h('div', { key: 'p' + name }, `${name}: ${format(node.props[name])}`)
+    ),
+    node.hooks.map((slot, i) =>
+      h(
+        'div',
+        { key: 'h' + i },
+        `#${i} ${slot.kind || 'hook'}: `,
+        slot.dispatch
+          ? h('input', {
+              key: format(slot.value),
+              defaultValue: format(slot.value),
+              style: { width: '60%' },
+              onChange: (e: Event) => {
+                try {
+                  slot.dispatch(JSON.parse((e.target as HTMLInputElement).value));
+                } catch (e) {}
+              },
+            })
+          : format(slot.value)
+      )
+    )
+  );
+
+/**
+ * 页面内的开发者工具面板，展示组件树、选中组件的 props 和 hooks，以及最近一次提交的耗时
+ * 依赖开发模式下的提交通知，生产构建中不会收到任何数据
+ */
+export const DevtoolsPanel: FC = () => {
+  const [commit, setCommit] = useState<DevtoolsCommit>(null);
+  const [selected, select] = useState<string>(null);
+
+  useEffect(() => {
+    const hook = installDevtools();
+    if (hook.last) setCommit(hook.last);
+    return hook.subscribe((commit) => {
+      if (!isPanelCommit(commit.fiber)) setCommit(commit);
+    });
+  }, []);
+
+  const rows = commit ? flatten(commit.tree) : [];
+  const current = rows.find(([node]) => node.id === selected);
+
+  return h(
+    'aside',
+    {
+      style: {
+        position: 'fixed',
+        right: 0,
+        bottom: 0,
+        width: '320px',
+        maxHeight: '50%',
+        overflow: 'auto',
+        background: '#222',
+        color: '#eee',
+        font: '12px monospace',
+        padding: '4px',
+        zIndex: 2147483647,
+      },
+    },
+    h(
+      'header',
+      null,
+      commit ? `commit ${commit.duration.toFixed(2)}ms` : 'waiting for commit'
+    ),
+    rows.map(([node, depth]) =>
+      h(
+        'div',
+        {
+          key: node.id,
+          style: {
+            paddingLeft: depth * 12 + 'px',
+            cursor: 'pointer',
+            color: node.id === selected ? '#6cf' : '',
+          },
+          onClick: () => select(node.id),
+        },
+        node.key != null ? `${node.name} key=${node.key}` : node.name
+      )
+    ),
+    current && h(Inspector, { node: current[0] })
+  );
+};
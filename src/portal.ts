@@ -0,0 +1,31 @@
+import { createVnode } from './h';
+import { Fiber, FreNode, Key, TAG } from './type';
+
+/**
+ * 创建 portal，将子节点渲染到另一个 DOM 容器中
+ * 子节点在 fiber 树中的位置不变，context 查找、effects 和卸载仍沿 fiber 树进行
+ * @param children 子节点
+ * @param container 目标 DOM 容器节点
+ * @param key 节点键值
+ * @returns 返回 portal 类型的 Fiber 节点
+ */
+export const createPortal = (children: FreNode, container: Node, key?: Key) =>
+  createVnode('#portal', { children, container }, key ?? null, null) as Fiber;
+
+/**
+ * 检查 Fiber 是否为 portal
+ * @param fiber 要检查的 Fiber 节点
+ */
+export const isPortal = (fiber?: Fiber) => fiber?.type === '#portal';
+
+/**
+ * portal 以 container 作为自己的节点，子节点插入到 container 中，原位置不留下任何节点
+ * 子节点的命名空间由 container 决定，也不参与水合
+ * @param fiber portal Fiber 节点
+ * @returns 返回 container
+ */
+export const mountPortal = (fiber: Fiber) => {
+  fiber.lane &= ~(TAG.HYDRATE | TAG.SVG);
+  if (fiber.props.container instanceof SVGElement) fiber.lane |= TAG.SVG;
+  return fiber.props.container as Fiber['node'];
+};
@@ -0,0 +1,124 @@
+import { report } from './boundary';
+import { FC, Fiber, FreNode, Profile, TAG } from './type';
+
+export interface ProfilerProps {
+  id: string;
+  onRender: (profile: Profile) => void;
+  children?: FreNode;
+}
+
+// 本次渲染中完成的 Profiler，提交后依次调用 onRender
+let pending: Fiber[] = [];
+
+/**
+ * Profiler 组件，每次提交其子树的渲染后调用 onRender 报告耗时
+ * 计时数据由 reconcile 在 capture 和 bubble 时写入 fiber，
+ * 只有带有 PROFILE 标记的 Profiler 及其子树会计时，没有 Profiler 时不调用 performance.now
+ * @param props id、onRender 与 children
+ */
+export const Profiler: FC<ProfilerProps> = ({ children }) =>
+  children as ReturnType<FC>;
+
+/**
+ * 是否需要为 fiber 计时
+ * @param fiber Fiber 节点
+ */
+const profiled = (fiber: Fiber) => fiber.lane & TAG.PROFILE;
+
+/**
+ * capture 开始处理 fiber 时获取开始时间，不需要计时的 fiber 返回 0
+ * @param fiber 将要处理的 Fiber 节点
+ */
+export const begin = (fiber: Fiber) => (profiled(fiber) ? performance.now() : 0);
+
+/**
+ * capture 处理完 fiber 自身后记录耗时，子节点的耗时在 bubble 时累加上来
+ * @param fiber 刚处理完的 Fiber 节点
+ * @param start 开始处理的时间
+ */
+export const track = (fiber: Fiber, start: number) => {
+  if (!profiled(fiber)) return;
+  fiber.duration = fiber.actual = performance.now() - start;
+  fiber.captures = 1;
+};
+
+/**
+ * bubble 时汇总 fiber 子树的耗时：actual 只包含本次渲染处理过的节点，
+ * base 为不跳过任何 memo 组件时整个子树的耗时估算
+ * @param fiber 子树已处理完的 Fiber 节点
+ * @param root 是否为本次渲染的根，根节点不向上累加
+ */
+export const measure = (fiber: Fiber, root: boolean) => {
+  if (!profiled(fiber)) return;
+  if (fiber.memo) {
+    // 跳过的 memo 组件沿用上一次渲染的估算
+    fiber.base = fiber.alternate?.base ?? 0;
+  } else {
+    sumBase(fiber);
+  }
+  if (fiber.type === Profiler) pending.push(fiber);
+  if (!root && fiber.parent && profiled(fiber.parent)) {
+    fiber.parent.actual += fiber.actual;
+    fiber.parent.captures += fiber.captures;
+  }
+};
+
+/**
+ * 以自身耗时加上子节点的 base 计算 fiber 的 base
+ * @param fiber Fiber 节点
+ */
+const sumBase = (fiber: Fiber) => {
+  let base = fiber.duration || 0;
+  fiber.kids?.forEach((kid) => (base += kid.base || 0));
+  fiber.base = base;
+};
+
+/**
+ * 渲染被打断或放弃时丢弃已完成的 Profiler
+ */
+export const resetProfiles = () => {
+  pending = [];
+};
+
+/**
+ * 提交后调用本次渲染涉及的 Profiler 的 onRender，由内向外
+ * 从组件自身的更新开始的渲染，其外层的 Profiler 同样会收到报告，耗时为其中各个根的耗时之和
+ * @param roots 本次渲染的根 Fiber 节点
+ * @param slices 本次渲染经历的时间切片数
+ */
+export const commitProfiles = (roots: Fiber[], slices: number) => {
+  const profilers = pending;
+  const inner = profilers.length;
+  pending = [];
+  roots.forEach((root) => {
+    // Profiler 之外的祖先不需要计时
+    for (let fiber = root.parent; fiber && profiled(fiber); fiber = fiber.parent) {
+      sumBase(fiber);
+      if (fiber.type !== Profiler) continue;
+      // 本次渲染过的 Profiler 在已有的耗时上累加，外层的 Profiler 从零开始累加
+      if (profilers.indexOf(fiber) < 0) {
+        fiber.actual = fiber.captures = 0;
+        profilers.push(fiber);
+      }
+      fiber.actual += root.actual;
+      fiber.captures += root.captures;
+    }
+  });
+  if (!profilers.length) return;
+  const commitTime = performance.now();
+  profilers.forEach((fiber, i) => {
+    try {
+      fiber.props.onRender({
+        id: fiber.props.id,
+        phase: i >= inner || fiber.alternate ? 'update' : 'mount',
+        actualDuration: fiber.actual,
+        baseDuration: fiber.base,
+        captures: fiber.captures,
+        slices,
+        commitTime,
+      });
+    } catch (e) {
+      report(fiber, e);
+    }
+  });
+};
@@ -1,93 +1,404 @@
 import {
+  Action,
   Fiber,
   FC,
   HookEffect,
   FreText,
+  Key,
   TAG,
   FiberHost,
   FiberFinish,
+  LANE,
+  Root,
+  RootOptions,
+  TaskCallback,
 } from './type';
 import { createElement } from './dom';
-import { resetCursor } from './hook';
-import { schedule, shouldYield } from './schedule';
-import { isArr, createText, createVnode } from './h';
-import { commit, removeElement } from './commit';
+import {
+  checkHooks,
+  commitQueues,
+  isTorn,
+  resetCursor,
+  resetQueues,
+  resetSnapshots,
+} from './hook';
+import { DEV, checkDuplicateKeys, checkListKeys } from './dev';
+import {
+  flushLane,
+  getLane,
+  runWithLane,
+  schedule,
+  shouldYield,
+} from './schedule';
+import { isArr, createText } from './h';
+import {
+  commitRoot,
+  isRemoved,
+  latest,
+  reclaim,
+  removeElement,
+} from './commit';
+import { isThenable, suspend, Suspense } from './suspense';
+import { fail, report } from './boundary';
+import { claim, finish } from './hydrate';
+import { isPortal, mountPortal } from './portal';
+import { isClass, renderClass } from './component';
+import {
+  Profiler,
+  begin,
+  commitProfiles,
+  measure,
+  resetProfiles,
+  track,
+} from './profiler';
 
 // 当前正在处理的 Fiber 节点
 let currentFiber: Fiber = null;
-// 根 Fiber 节点
-let rootFiber = null;
+
+// 一次渲染：以 lane 优先级处理 roots 中等待更新的 fiber，全部完成后一起提交
+// 每棵树从这些 fiber 的最近公共祖先开始遍历，没有更新的子树直接跳过
+interface Work {
+  roots: Fiber[]; // 有等待中的更新的 fiber
+  tops?: Fiber[]; // 每棵树中 roots 的最近公共祖先
+  paths?: Set<Fiber>; // 从公共祖先到 roots 的路径上的 fiber
+  places?: Set<Fiber>; // 原地处理、没有随父节点重新渲染的 fiber
+  forced?: Set<Fiber>; // 需要原地重新渲染的边界
+  done?: Fiber[]; // 原地重新渲染过的 fiber，提交时从这些 fiber 开始
+  root?: Fiber; // 正在遍历的树的公共祖先
+  next?: number; // 下一棵树在 tops 中的下标
+  lane: LANE;
+  limit?: LANE; // 本次渲染处理的更新的最低优先级，改为同步重新渲染时保持不变
+  fiber?: Fiber; // 下一个要处理的节点
+  slices?: number; // 经历的时间切片数
+}
+
+// 正在进行中的渲染
+let wip: Work = null;
+// 各优先级上尚未开始的渲染，同一优先级的更新都合并到其中
+const batches = new Map<LANE, Work>();
+// batch 的嵌套层数，以及 batch 中新建的渲染，在最外层结束时才调度
+let batching = 0;
+let held: Work[] = [];
+// 本次渲染中被覆盖的 kids 和 child，渲染被打断时用于回退
+let journal: [Fiber, Fiber[], Fiber][] = [];
+// 本次渲染中需要移除的旧节点，提交时才从 DOM 中移除
+let deletions: Fiber[] = [];
+// 本次渲染中已经处理了等待中的更新的 fiber，渲染被打断时恢复其 dirty
+let consumed: Fiber[] = [];
+// 本次渲染中跳过的 memo 组件，渲染被打断时将其子节点指回上一次的 fiber
+let skipped: Fiber[] = [];
+// render 为每个容器创建的根节点
+const containers = new WeakMap<Node, Root>();
+// 已创建的客户端根节点数，没有指定 identifierPrefix 时用于生成 useId 的前缀
+let rootCount = 0;
+// 本次渲染中有待执行的 effects 的组件，按完成顺序（子组件在前）在提交后执行
+let effected: Fiber[] = [];
 
 /**
  * render 方法是入口函数，将虚拟 DOM 渲染到真实 DOM 节点上
+ * 首次渲染时容器中已有的内容会被清空，需要复用服务端输出时使用 hydrate
+ * 再次渲染到同一容器时复用其根节点，与上一次的结果进行 diff
  * @param vnode 虚拟 DOM 节点
  * @param node 目标 DOM 容器节点
  */
 export const render = (vnode: Fiber, node: Node) => {
-  debugger;
+  let root = containers.get(node);
+  if (!root) containers.set(node, (root = createRoot(node)));
+  root.render(vnode);
+};
 
-  // 1. 通过 recycleNode 将已有的真实 DOM 节点转为虚拟节点（vnode），用于后续的同构/水合（hydrate）
-  const recycleNodeValue = recycleNode(node);
+/**
+ * createRoot 为容器创建独立的根节点，同一页面可以存在多个互不干扰的根节点
+ * 首次 render 会清空容器，之后的 render 与上一次的结果进行 diff
+ * 没有指定 identifierPrefix 时按创建顺序生成前缀，各个根节点中 useId 生成的 id 互不重复
+ * @param node 目标 DOM 容器节点
+ * @param options identifierPrefix 等选项
+ * @returns 返回带有 render 和 unmount 方法的根节点
+ */
+export const createRoot = (node: Node, options?: RootOptions): Root => {
+  const prefix = options?.identifierPrefix ?? `r${rootCount++}-`;
+  let root: Fiber = null;
+  return {
+    render(vnode) {
+      if (root) {
+        root.props = { children: vnode };
+        update(root);
+      } else {
+        node.textContent = '';
+        root = mount(vnode, node, 0, prefix);
+      }
+    },
+    unmount() {
+      if (!root) return;
+      // 放弃该根节点下的渲染，同一次渲染中其他根节点的更新之后重新开始
+      // 已调度的渲染会因 dirty 被清除、或其中的 fiber 已被移除而跳过
+      const inside = (fiber: Fiber) => contains(root, fiber);
+      if (wip?.roots.some(inside)) {
+        wip.roots = wip.roots.filter((fiber) => !inside(fiber));
+        restore();
+      }
+      root.dirty = false;
+      // 执行所有 effect 的清理函数，清除 ref 并移除 DOM
+      root.kids.forEach((kid) => removeElement(kid));
+      root.kids = [];
+      root.child = null;
+      root = null;
+    },
+  };
+};
+
+/**
+ * hydrate 复用容器中服务端渲染出的 DOM，只绑定事件监听和 ref
+ * 不匹配的节点会在原位置修补，并输出带有 fiber 路径的警告
+ * identifierPrefix 需要与服务端渲染时的一致
+ * @param vnode 虚拟 DOM 节点
+ * @param node 包含服务端输出的 DOM 容器节点
+ * @param options identifierPrefix 等选项
+ */
+export const hydrate = (vnode: Fiber, node: Node, options?: RootOptions) => {
+  mount(vnode, node, TAG.HYDRATE, options?.identifierPrefix ?? '');
+};
 
-  // 2. 构造根 Fiber 节点，node 是真实 DOM 节点，props.children 是新的虚拟 DOM，kids 是旧的虚拟 DOM（用于 diff）
-  rootFiber = {
+/**
+ * 构造根 Fiber 节点并开始调度更新流程
+ * @param vnode 虚拟 DOM 节点
+ * @param node 目标 DOM 容器节点
+ * @param lane 根节点的标记，水合时为 TAG.HYDRATE
+ * @param prefix useId 的前缀
+ * @returns 返回根 Fiber 节点
+ */
+const mount = (vnode: Fiber, node: Node, lane: number, prefix: string) => {
+  const root = {
     node, // 真实 DOM 节点
     props: { children: vnode }, // 新的虚拟 DOM
-    kids: recycleNodeValue.props.children, // 旧的虚拟 DOM（hydrate）
+    kids: [], // 旧的虚拟 DOM
+    lane,
+    prefix,
   } as Fiber;
-  // 3. 开始调度更新流程
-  update(rootFiber);
+  update(root);
+  return root;
 };
 
 /**
- * update 用于标记 fiber 为 dirty，并调度 reconcile 进行 diff 和更新
+ * update 用于标记 fiber 为 dirty，并按优先级调度 reconcile 进行 diff 和更新
+ * 同一优先级上尚未开始渲染的更新合并为一次渲染和一次提交，包括不同子树中的更新
+ * 已在等待的 fiber 收到更高优先级的更新时，以新的优先级再调度一次
  * @param fiber 要更新的 Fiber 节点
+ * @param lane 更新的优先级，默认取当前上下文的优先级
  */
-export const update = (fiber?: Fiber) => {
-  if (!fiber.dirty) {
-    fiber.dirty = true; // 标记为脏
-    schedule(() => reconcile(fiber)); // 调度 reconcile
+export const update = (fiber?: Fiber, lane: LANE = getLane()) => {
+  fiber = latest(fiber); // hook 中保存的 fiber 可能已被跳过的 memo 组件取代
+  if (fiber.lane & TAG.HIDDEN) lane = LANE.IDLE; // 隐藏的子树在空闲时渲染
+  if (fiber.dirty && lane >= (fiber.lane & LANE.MASK)) return;
+  fiber.dirty = true; // 标记为脏
+  fiber.lane = (fiber.lane & ~LANE.MASK) | lane; // 记录等待中的最高优先级
+  let work = batches.get(lane);
+  if (!work) {
+    work = { roots: [], lane, slices: 0 };
+    batches.set(lane, work);
+    if (batching) held.push(work);
+    else open(work);
   }
+  work.roots.push(fiber);
 };
 
 /**
- * recycleNode 将真实 DOM 节点递归转为虚拟节点结构，便于后续 diff
- * 用于服务端渲染（SSR）的水合（hydration）过程
- * @param node 真实 DOM 节点
- * @returns 返回对应的虚拟节点
+ * 调度一次渲染
+ * @param work 要进行的渲染
  */
-const recycleNode = (node: Node) => {
-  let vnode: any = createVnode(
-    node.nodeName.toLowerCase(),
-    node.nodeType === 3
-      ? { nodeValue: node.nodeValue } // 文本节点
-      : {
-          children: Array.from(node.childNodes)
-            .filter(
-              (node: Node) =>
-                node.nodeType !== Node.TEXT_NODE || node.nodeValue.trim() !== ''
-            )
-            .map(recycleNode), // 递归处理子节点
-        },
-    null,
-    null
-  );
-  vnode.node = node; // 绑定真实 DOM
-  return vnode;
+const open = (work: Work) => {
+  schedule(() => reconcile(work), work.lane);
+};
+
+/**
+ * 合并回调中发起的所有更新，在回调结束后以一次渲染和一次提交完成
+ * 事件处理函数中的更新会自动合并
+ * @param cb 发起更新的回调函数
+ * @returns 返回回调的返回值
+ */
+export const batch = <T>(cb: () => T): T => {
+  batching++;
+  try {
+    return cb();
+  } finally {
+    // 最外层的 batch 结束时调度合并的渲染
+    if (--batching === 0) {
+      const works = held;
+      held = [];
+      works.forEach(open);
+    }
+  }
+};
+
+/**
+ * 以同步优先级执行回调中发起的更新，回调返回前完成渲染和提交
+ * 在 batch、渲染或 effect 中调用时无法立即完成，更新仍以同步优先级尽快渲染
+ * @param cb 发起更新的回调函数
+ * @returns 返回回调的返回值
+ */
+export const flushSync = <T>(cb: () => T): T => {
+  const result = runWithLane(LANE.SYNC, cb);
+  if (!batching) flushLane(LANE.SYNC);
+  return result;
 };
 
 /**
  * reconcile 是核心调度函数，遍历 fiber 树，捕获每个 fiber 进行处理
- * 使用时间切片技术，避免长时间阻塞主线程
- * @param fiber 要协调的 Fiber 节点
- * @returns 返回下一个要处理的 Fiber 节点或 null
+ * 使用时间切片技术，避免长时间阻塞主线程；同步优先级的渲染不切片
+ * 更高优先级的渲染开始时会打断进行中的渲染，被打断的渲染之后从第一个根重新开始
+ * @param work 要进行的渲染
+ * @returns 返回下次继续的任务或 null
+ */
+const reconcile = (work: Work): TaskCallback => {
+  if (wip !== work) {
+    // 开始渲染后的更新合并到新的渲染中
+    if (batches.get(work.lane) === work) batches.delete(work.lane);
+    // 调度之后组件可能又被提交过，从其最新的 fiber 开始；已被其他渲染提交的不再渲染
+    // 已经移除的组件（包括所在的根节点已经卸载）也不再渲染
+    work.roots = work.roots
+      .map(latest)
+      .filter((fiber) => fiber.dirty && !isRemoved(fiber));
+    if (!work.roots.length) return null;
+    if (wip) restore(); // 回退被打断的渲染
+    start(work);
+  }
+  work.slices++;
+  let fiber = work.fiber;
+  try {
+    // 捕获 fiber，直到 shouldYield（时间切片）
+    while (fiber && (work.lane === LANE.SYNC || !shouldYield())) {
+      fiber = capture(fiber);
+    }
+  } catch (e) {
+    abort(); // 未被边界捕获的错误，重置状态后继续抛出
+    throw e;
+  }
+  work.fiber = fiber;
+  if (fiber) return () => reconcile(work); // 若未完成，返回下次继续的函数
+  return null;
+};
+
+/**
+ * 从第一棵树开始进行渲染：按树分组求出 roots 的最近公共祖先，并记录通往 roots 的路径
+ * @param work 要进行的渲染
  */
-const reconcile = (fiber?: Fiber) => {
-  while (fiber && !shouldYield()) fiber = capture(fiber); // 捕获 fiber，直到 shouldYield（时间切片）
-  if (fiber) return reconcile.bind(null, fiber) as typeof reconcile; // 若未完成，返回下次继续的函数
+const start = (work: Work) => {
+  // 每棵树的根节点到其中第一个 root 的路径，逐步截短为公共部分
+  const chains = new Map<Fiber, Fiber[]>();
+  work.paths = new Set();
+  work.roots.forEach((root) => {
+    const chain: Fiber[] = [];
+    for (let fiber = root; fiber; fiber = fiber.parent) {
+      chain.unshift(fiber);
+      work.paths.add(fiber);
+    }
+    const common = chains.get(chain[0]);
+    if (common) {
+      let i = 0;
+      while (i < common.length && common[i] === chain[i]) i++;
+      common.length = i;
+    } else {
+      chains.set(chain[0], chain);
+    }
+  });
+  work.tops = [];
+  chains.forEach((chain) => work.tops.push(chain[chain.length - 1]));
+  work.places = new Set();
+  work.forced = new Set();
+  work.done = [];
+  work.next = 0;
+  work.limit = work.limit || work.lane;
+  wip = work;
+  work.fiber = nextRoot(work);
+  resetSnapshots();
+  resetQueues();
+};
+
+/**
+ * 取出下一棵树的公共祖先，从它开始原地处理
+ * @param work 进行中的渲染
+ * @returns 返回公共祖先，全部完成时返回 null
+ */
+const nextRoot = (work: Work) => {
+  const root = work.tops[work.next++];
+  if (!root) return null;
+  work.places.add(root);
+  return (work.root = root);
+};
+
+/**
+ * 在 kids 中从下标 i 开始查找下一个通往 roots 的子节点，原地处理
+ * 其余的子节点没有等待中的更新，直接跳过
+ * @param kids 子 Fiber 节点
+ * @param i 开始查找的下标
+ */
+const nextPlace = (kids: Fiber[], i: number) => {
+  for (; kids && i < kids.length; i++) {
+    if (wip.paths.has(kids[i])) {
+      wip.places.add(kids[i]);
+      return kids[i];
+    }
+  }
   return null;
 };
 
+/**
+ * 处理 fiber 等待中的更新，清除其 dirty，渲染被打断时恢复
+ * @param fiber Fiber 节点
+ * @returns 返回 fiber 是否有等待中的更新
+ */
+const consume = (fiber?: Fiber) => {
+  if (!fiber?.dirty) return false;
+  fiber.dirty = false;
+  consumed.push(fiber);
+  return true;
+};
+
+/**
+ * 检查 fiber 是否位于 ancestor 的子树中（包括 ancestor 自身）
+ * @param ancestor 祖先 Fiber 节点
+ * @param fiber Fiber 节点
+ */
+const contains = (ancestor: Fiber, fiber: Fiber) => {
+  for (; fiber; fiber = fiber.parent) if (fiber === ancestor) return true;
+  return false;
+};
+
+/**
+ * 回退进行中的渲染，恢复被覆盖的 kids 和 child，使其可以从根节点干净地重新开始
+ */
+const restore = () => {
+  for (let i = journal.length - 1; i >= 0; i--) {
+    const [fiber, kids, child] = journal[i];
+    fiber.kids = kids;
+    fiber.child = child;
+  }
+  journal = [];
+  deletions.forEach((fiber) => (fiber.action = null));
+  deletions = [];
+  consumed.forEach((fiber) => (fiber.dirty = true));
+  consumed = [];
+  skipped.forEach((fiber) => fiber.kids?.forEach((kid) => (kid.parent = fiber.alternate)));
+  skipped = [];
+  effected = [];
+  wip = null;
+  currentFiber = null;
+  resetQueues();
+  resetProfiles();
+};
+
+/**
+ * 放弃当前渲染，回退状态并清除 dirty 标记，保证后续 update 能重新调度
+ */
+const abort = () => {
+  const { roots } = wip;
+  restore();
+  roots.forEach((root) => {
+    root.dirty = false;
+    root.lane &= ~LANE.MASK;
+  });
+};
+
 /**
  * capture 处理单个 fiber 节点，分为组件和原生节点
  * 这是 Fiber 架构的核心，负责组件的渲染和更新
@@ -95,25 +406,159 @@ const reconcile = (fiber?: Fiber) => {
  * @returns 返回下一个要处理的 Fiber 节点
  */
 const capture = (fiber: Fiber) => {
+  const start = begin(fiber);
+  // 原地处理的 fiber 没有等待中的更新时不重新渲染，只进入通往 roots 的子节点
+  const inPlace = wip.places.has(fiber);
+  if (inPlace) {
+    if (!consume(fiber) && !wip.forced.delete(fiber)) {
+      fiber.memo = false;
+      track(fiber, start);
+      return nextPlace(fiber.kids, 0) || getSibling(fiber);
+    }
+    wip.done.push(fiber); // 原地重新渲染，提交时从这里开始
+  }
   fiber.isComp = isFn(fiber.type); // 判断是否为函数组件
   if (fiber.isComp) {
-    if (isMemo(fiber)) {
-      fiber.memo = true;
-      return getSibling(fiber); // 跳过未变化的 memo 组件
-    } else if (fiber.memo) {
-      fiber.memo = false;
+    // 组件自身有等待中的更新时，即使 props 未变化也要重新渲染，本次渲染即处理了这次更新
+    const pending = inPlace || consume(fiber.alternate);
+    fiber.memo = !pending && isMemo(fiber);
+    if (!fiber.memo) {
+      // 处理函数组件（hooks），抛出的 promise 交给 Suspense，其他错误交给 ErrorBoundary
+      try {
+        updateHook(fiber);
+      } catch (e) {
+        const boundary = (isThenable(e) && suspend(fiber, e)) || fail(fiber, e);
+        if (!boundary) throw e;
+        widen(boundary);
+        // 从边界重新开始，渲染 fallback
+        return boundary.type === Suspense ? unwind(boundary) : rewind(boundary);
+      }
+    }
+    // 跳过未变化的 memo 组件，以及 shouldComponentUpdate 返回 false 的类组件
+    if (fiber.memo) {
+      // 子节点沿用上一次的 fiber，指回新的父节点，保证事件沿 fiber 路径派发时读到最新的 props
+      fiber.kids?.forEach((kid) => (kid.parent = fiber));
+      skipped.push(fiber);
+      track(fiber, start);
+      // 子树中有等待中的更新时进入子树，只渲染有更新的组件
+      return nextPlace(fiber.kids, 0) || getSibling(fiber);
     }
-    // 处理函数组件（hooks）
-    updateHook(fiber);
   } else {
     // 处理原生节点
     updateHost(fiber as FiberHost);
   }
+  track(fiber, start); // 记录处理自身的耗时，供 Profiler 使用
   if (fiber.child) return fiber.child; // 优先遍历子节点
   const sibling = getSibling(fiber); // 没有子节点则遍历兄弟节点
   return sibling;
 };
 
+/**
+ * 边界是本次遍历的公共祖先的祖先时（如组件自身的更新中抛出错误），将遍历的起点扩大到边界
+ * 保证 fallback 渲染完成后从边界提交
+ * @param boundary 边界 Fiber 节点
+ */
+const widen = (boundary: Fiber) => {
+  for (let fiber = wip.root.parent; fiber; fiber = fiber.parent) {
+    if (fiber === boundary) {
+      wip.root = boundary;
+      wip.places.add(boundary);
+      break;
+    }
+  }
+  // 边界之内原地渲染过的 fiber 随边界重新渲染，原地处理的边界即使没有更新也要重新渲染
+  wip.done = wip.done.filter((fiber) => !contains(boundary, fiber));
+  if (wip.places.has(boundary)) wip.forced.add(boundary);
+};
+
+/**
+ * 回退边界 fiber 的子节点：已挂载的节点在提交时移除，丢弃本次渲染中尚未挂载的节点
+ * 之后 fallback 作为全新的子节点插入
+ * @param fiber 边界 Fiber 节点
+ * @returns 返回边界 Fiber 节点
+ */
+const rewind = (fiber: Fiber) => {
+  fiber.kids.forEach((kid) => {
+    const mounted = isMounted(kid);
+    discard(kid);
+    if (mounted) {
+      kid.action = { op: TAG.REMOVE };
+      deletions.push(kid);
+    }
+  });
+  fiber.kids = [];
+  return fiber;
+};
+
+/**
+ * 回退 Suspense 子树中本次渲染的结果，恢复上一次提交的子节点
+ * 已经显示过的子节点由 Suspense 冻结并隐藏，状态和 DOM 保持不变，更新留到完成后重新渲染
+ * @param boundary Suspense Fiber 节点
+ * @returns 返回 Suspense Fiber 节点
+ */
+const unwind = (boundary: Fiber) => {
+  const inside = (fiber: Fiber) =>
+    fiber !== boundary &&
+    (contains(boundary, fiber) || contains(boundary.alternate, fiber));
+  boundary.kids?.forEach(discard);
+  for (let i = journal.length - 1; i >= 0; i--) {
+    const [fiber, kids, child] = journal[i];
+    if (fiber !== boundary && !inside(fiber)) continue;
+    fiber.kids = kids;
+    fiber.child = child;
+    journal.splice(i, 1);
+  }
+  deletions = deletions.filter((fiber) => {
+    if (!inside(fiber)) return true;
+    fiber.action = null;
+    return false;
+  });
+  consumed = consumed.filter((fiber) => {
+    if (!inside(fiber)) return true;
+    fiber.dirty = true;
+    return false;
+  });
+  skipped = skipped.filter((fiber) => {
+    if (!inside(fiber)) return true;
+    fiber.kids?.forEach((kid) => (kid.parent = fiber.alternate));
+    return false;
+  });
+  effected = effected.filter((fiber) => !inside(fiber));
+  // 冻结的子树不再进入
+  wip.paths.forEach((fiber) => inside(fiber) && wip.paths.delete(fiber));
+  return boundary;
+};
+
+/**
+ * 清除未挂载节点在本次渲染中产生的状态，避免同一个 vnode 再次渲染时复用
+ * @param fiber 要清除的 Fiber 节点
+ */
+const discard = (fiber: Fiber) => {
+  fiber.kids?.forEach(discard);
+  if (!isMounted(fiber)) {
+    fiber.node = fiber.hooks = fiber.child = fiber.kids = null;
+  }
+};
+
+/**
+ * 清除已经移除的节点上一次挂载留下的状态，包括 hooks、DOM 和子节点
+ * @param fiber 要重新挂载的 Fiber 节点
+ */
+const renew = (fiber: Fiber) => {
+  fiber.node = fiber.hooks = fiber.child = fiber.kids = fiber.alternate = null;
+  fiber.dirty = fiber.memo = false;
+  fiber.lane = 0;
+};
+
+/**
+ * 检查 fiber 是否已经挂载：宿主节点已在 DOM 中，组件不是本次渲染中新插入的
+ * @param fiber 要检查的 Fiber 节点
+ */
+const isMounted = (fiber: Fiber) =>
+  isFn(fiber.type)
+    ? !(fiber.action?.op & TAG.INSERT)
+    : !!fiber.node?.parentNode;
+
 /**
  * 检查 Fiber 是否为 memo 组件且 props 未变化
  * @param fiber 要检查的 Fiber 节点
@@ -141,30 +586,76 @@ export const isMemo = (fiber: Fiber) => {
 const getSibling = (fiber?: Fiber) => {
   while (fiber) {
     bubble(fiber);
-    if (fiber.dirty) {
-      fiber.dirty = false;
-      commit(fiber as FiberFinish);
+    if (fiber === wip.root) {
+      const work = wip;
+      if (work.lane !== LANE.SYNC && isTorn()) {
+        // 渲染过程中外部 store 发生了变化，以同步优先级从第一棵树重新渲染
+        restore();
+        work.lane = LANE.SYNC;
+        start(work);
+        return work.fiber;
+      }
+      // 该树遍历完成，继续下一棵树
+      work.tops[work.next - 1] = fiber;
+      const next = nextRoot(work);
+      if (next) return next;
+      // 所有树遍历完成，清除等待中的优先级，一起提交
+      const removed = deletions;
+      const fibers = effected;
+      work.done.forEach((fiber) => {
+        if (!fiber.dirty) fiber.lane &= ~LANE.MASK;
+      });
+      wip = null;
+      journal = [];
+      deletions = [];
+      consumed = [];
+      skipped = [];
+      effected = [];
+      commitRoot(work.done as FiberFinish[], removed);
+      commitQueues(); // 丢弃已经处理的更新，重新调度跳过的更新
+      // 宿主节点和 ref 都已就绪后执行 effects
+      fibers.forEach(runEffects);
+      commitProfiles(work.tops, work.slices);
       return null;
     }
-    if (fiber.sibling) return fiber.sibling;
+    // 原地处理的 fiber 的兄弟节点同样只处理通往 roots 的
+    const sibling = wip.places.has(fiber)
+      ? nextPlace(fiber.parent.kids, fiber.index + 1)
+      : fiber.sibling;
+    if (sibling) return sibling;
     fiber = fiber.parent;
   }
   return null;
 };
 
 /**
- * 处理 Fiber 的副作用，执行 layout 和 effect hooks
+ * 完成 Fiber 的处理，记录有待执行的 layout 和 effect hooks 的组件，提交后执行
  * @param fiber 要处理副作用的 Fiber 节点
  */
 const bubble = (fiber: Fiber) => {
+  measure(fiber, fiber === wip.root); // 汇总子树的耗时
+  if (fiber.lane & TAG.HYDRATE) {
+    if (!fiber.isComp) finish(fiber); // 移除服务端多出来的节点
+    fiber.lane &= ~TAG.HYDRATE; // 水合只发生在首次渲染
+  }
   if (fiber.isComp) {
-    if (fiber.hooks) {
-      side(fiber.hooks.layout); // 同步执行 layout effects
-      schedule(() => side(fiber.hooks.effect) as undefined); // 异步执行 effects
+    const hooks = fiber.hooks;
+    if (hooks && (hooks.layout.length || hooks.effect.length)) {
+      effected.push(fiber);
     }
   }
 };
 
+/**
+ * 执行组件队列中的 effects：layout effects 同步执行，effects 异步执行
+ * 由提交和 Offscreen 的显示调用，此时 DOM 和 ref 都已更新
+ * @param fiber 组件 Fiber 节点
+ */
+export const runEffects = (fiber: Fiber) => {
+  side(fiber, fiber.hooks.layout); // 同步执行 layout effects
+  schedule(() => side(fiber, fiber.hooks.effect) as undefined); // 异步执行 effects
+};
+
 /**
  * 浅比较两个对象，检查是否有属性变化
  * @param a 旧对象
@@ -180,28 +671,34 @@ const shouldUpdate = (
 };
 
 /**
- * 为函数组件创建 DocumentFragment 包装器
+ * updateHook 处理函数组件，重置 hooks 游标，执行组件函数，生成子虚拟节点
+ * 组件没有自己的 DOM 节点，其子树的宿主节点直接插入到最近的宿主祖先中
  * @param fiber 函数组件 Fiber
- * @returns 返回包含注释节点的 DocumentFragment
  */
-const fragment = (fiber: Fiber) => {
-  const f = document.createDocumentFragment() as any;
-  const c = document.createComment((fiber.type as FC).name);
-  f.appendChild(c);
-  return f;
+const updateHook = (fiber: Fiber) => {
+  let children = renderHook(fiber); // 执行函数组件，得到子虚拟节点
+  if (fiber.memo) return; // 类组件或冻结的 Offscreen 跳过了本次更新
+  if (DEV && isArr(children)) checkListKeys(children, fiber); // 组件直接返回的列表同样需要 key
+  reconcileChidren(fiber, simpleVnode(children)); // diff 子节点
 };
 
 /**
- * updateHook 处理函数组件，重置 hooks 游标，执行组件函数，生成子虚拟节点
+ * renderHook 以 fiber 为当前组件执行函数组件，服务端渲染也复用它来运行 hooks
  * @param fiber 函数组件 Fiber
+ * @returns 返回组件渲染出的子节点
  */
-const updateHook = (fiber: Fiber) => {
+export const renderHook = (fiber: Fiber): ReturnType<FC> => {
   resetCursor(); // 重置 hooks 游标
   currentFiber = fiber;
-  fiber.node = fiber.node || fragment(fiber); // fragment 用于包裹函数组件
-
-  let children = (fiber.type as FC)(fiber.props); // 执行函数组件，得到子虚拟节点
-  reconcileChidren(fiber, simpleVnode(children)); // diff 子节点
+  try {
+    const children = isClass(fiber.type)
+      ? renderClass(fiber)
+      : (fiber.type as FC)(fiber.props);
+    if (DEV) checkHooks(fiber); // 检查 hook 数量是否与之前的渲染一致
+    return children;
+  } finally {
+    currentFiber = null; // 渲染之外调用的 hook 不会误用上一个组件
+  }
 };
 
 /**
@@ -211,7 +708,12 @@ const updateHook = (fiber: Fiber) => {
 const updateHost = (fiber: FiberHost) => {
   if (!fiber.node) {
     if (fiber.type === 'svg') fiber.lane |= TAG.SVG;
-    fiber.node = createElement(fiber); // 创建真实 DOM
+    // portal 以目标容器作为节点；水合时认领已有的 DOM，否则创建真实 DOM
+    fiber.node = isPortal(fiber)
+      ? mountPortal(fiber)
+      : fiber.lane & TAG.HYDRATE
+      ? claim(fiber)
+      : createElement(fiber);
   }
   reconcileChidren(fiber, fiber.props.children); // diff 子节点
 };
@@ -233,18 +735,33 @@ const reconcileChidren = (
   fiber: Fiber,
   children: Fiber | Fiber[] | null | undefined
 ) => {
+  journal.push([fiber, fiber.kids, fiber.child]); // 记录旧子节点，渲染被打断时回退
   let aCh = fiber.kids || [], // 旧子节点
     bCh = (fiber.kids = arrayfy(children)); // 新子节点
+  if (DEV) checkDuplicateKeys(fiber, bCh);
   const actions = diff(aCh, bCh); // 生成 diff actions
+  fiber.child = null; // 没有子节点时不再指向旧的子节点
 
   for (let i = 0, prev = null, len = bCh.length; i < len; i++) {
     const child = bCh[i];
     child.action = actions[i]; // 标记 action
+    // Suspense、ErrorBoundary 恢复后重新渲染同一组子节点时，已经移除的 vnode 作为新节点挂载
+    if (child.action.op & TAG.INSERT && reclaim(child)) renew(child);
 
     if (fiber.lane & TAG.SVG) {
       child.lane |= TAG.SVG;
     }
+    if (fiber.lane & TAG.HYDRATE) {
+      child.lane |= TAG.HYDRATE;
+    }
+    if (fiber.lane & TAG.HIDDEN) {
+      child.lane |= TAG.HIDDEN;
+    }
+    if (fiber.lane & TAG.PROFILE || child.type === Profiler) {
+      child.lane |= TAG.PROFILE;
+    }
     child.parent = fiber; // 建立父子关系
+    child.index = i; // 在父节点 kids 中的下标，供 useId 使用
     if (i > 0) {
       prev.sibling = child; // 建立兄弟关系
     } else {
@@ -261,8 +778,7 @@ const reconcileChidren = (
  */
 function clone(a: Fiber, b: Fiber) {
   b.hooks = a.hooks;
-  b.ref = a.ref;
-  b.node = a.node; // 临时修复
+  b.node = a.node; // 宿主节点沿用已有的 DOM
   b.kids = a.kids;
   b.alternate = a;
 }
@@ -276,127 +792,129 @@ export const arrayfy = <T>(arr: T | T[] | null | undefined) =>
   !arr ? [] : isArr(arr) ? arr : [arr];
 
 /**
- * 执行副作用 hooks
+ * 执行副作用 hooks，抛出的错误交给最近的 ErrorBoundary
+ * @param fiber 副作用所属的 Fiber 节点
  * @param effects 副作用数组
  */
-const side = (effects?: HookEffect[]) => {
-  effects.forEach((e) => e[2] && e[2]()); // 执行清理函数
-  effects.forEach((e) => (e[2] = e[0]())); // 执行副作用函数
-  effects.length = 0; // 清空数组
+const side = (fiber: Fiber, effects?: HookEffect[]) => {
+  try {
+    effects.forEach((e) => e[2] && e[2]()); // 执行清理函数
+    effects.forEach((e) => (e[2] = e[0]())); // 执行副作用函数
+  } catch (e) {
+    report(fiber, e);
+  } finally {
+    effects.length = 0; // 清空数组
+  }
 };
 
 /**
- * 虚拟 DOM diff 算法 - 双端比较算法
- * 比较新旧子节点数组，生成最小化的 DOM 操作序列
+ * 虚拟 DOM diff 算法
+ * 先匹配相同的头部和尾部，中间部分按 key（无 key 时按类型和顺序）找到可复用的旧节点，
+ * 保留旧位置构成最长递增子序列的节点不动，只移动其余的节点，使 DOM 移动次数最少
+ * 没有被复用的旧节点标记为 REMOVE，在提交阶段才移除
  * @param aCh 旧的子节点数组
  * @param bCh 新的子节点数组
- * @returns 操作序列数组，包含 UPDATE、INSERT、MOVE、REMOVE 等操作
+ * @returns 新子节点对应的操作序列，包含 UPDATE、INSERT、MOVE
  */
 const diff = (aCh: Fiber[], bCh: Fiber[]) => {
-  // 初始化双端指针
-  let aHead = 0, // 旧数组头部指针
-    bHead = 0, // 新数组头部指针
-    aTail = aCh.length - 1, // 旧数组尾部指针
-    bTail = bCh.length - 1, // 新数组尾部指针
-    aMap = {}, // 旧数组 key 到索引的映射
-    bMap = {}, // 新数组 key 到索引的映射
-    // 判断两个节点是否相同（类型和 key 都相同）
-    same = (a: Fiber, b: Fiber) => {
-      return a.type === b.type && a.key === b.key;
-    },
-    temp = [], // 临时存储从尾部匹配的操作
-    actions = []; // 最终的操作序列
-
-  // 第一步：从尾部开始匹配相同的节点
-  // 这样可以快速处理尾部相同的节点，减少后续比较的工作量
-  while (aHead <= aTail && bHead <= bTail) {
-    if (!same(aCh[aTail], bCh[bTail])) break;
-    clone(aCh[aTail], bCh[bTail]); // 复制旧节点的状态到新节点
-    temp.push({ op: TAG.UPDATE }); // 标记为更新操作
-    aTail--; // 旧数组尾部指针前移
-    bTail--; // 新数组尾部指针前移
+  const actions: Action[] = new Array(bCh.length);
+  // 判断两个节点是否相同（类型和 key 都相同）
+  const same = (a: Fiber, b: Fiber) => a.type === b.type && a.key === b.key;
+  const update = (a: Fiber, i: number) => {
+    clone(a, bCh[i]); // 复制旧节点的状态到新节点
+    actions[i] = { op: TAG.UPDATE };
+  };
+
+  let head = 0,
+    aTail = aCh.length - 1,
+    bTail = bCh.length - 1;
+
+  // 第一步：匹配相同的头部和尾部
+  while (head <= aTail && head <= bTail && same(aCh[head], bCh[head])) {
+    update(aCh[head], head++);
   }
-
-  // 第二步：从头部开始匹配相同的节点
-  // 处理头部相同的节点
-  while (aHead <= aTail && bHead <= bTail) {
-    if (!same(aCh[aHead], bCh[bHead])) break;
-
-    clone(aCh[aHead], bCh[bHead]); // 复制旧节点的状态到新节点
-    actions.push({ op: TAG.UPDATE }); // 标记为更新操作
-    aHead++; // 旧数组头部指针后移
-    bHead++; // 新数组头部指针后移
+  while (head <= aTail && head <= bTail && same(aCh[aTail], bCh[bTail])) {
+    update(aCh[aTail--], bTail--);
   }
 
-  // 第三步：为剩余节点建立 key 映射
-  // 为旧数组中剩余节点建立 key 到索引的映射
-  for (let i = aHead; i <= aTail; i++) {
-    if (aCh[i].key) aMap[aCh[i].key] = i;
-  }
-  // 为新数组中剩余节点建立 key 到索引的映射
-  for (let i = bHead; i <= bTail; i++) {
-    if (bCh[i].key) bMap[bCh[i].key] = i;
+  // 第二步：为中间部分的新节点建立 key 到索引的映射，记录每个新节点复用的旧节点
+  const keyed = new Map<Key, number>();
+  for (let i = head; i <= bTail; i++) {
+    if (bCh[i].key != null) keyed.set(bCh[i].key, i);
   }
-
-  // 第四步：处理剩余的未匹配节点
-  // 这是算法的核心部分，处理所有未在头部和尾部匹配的节点
-  while (aHead <= aTail || bHead <= bTail) {
-    var aElm = aCh[aHead], // 当前旧数组头部元素
-      bElm = bCh[bHead]; // 当前新数组头部元素
-
-    // 情况1：旧数组头部元素已被标记为删除（null）
-    if (aElm === null) {
-      aHead++;
-    }
-    // 情况2：新数组已遍历完毕，旧数组剩余元素需要删除
-    else if (bTail + 1 <= bHead) {
-      removeElement(aElm); // 删除旧元素
-      aHead++;
-    }
-    // 情况3：旧数组已遍历完毕，新数组剩余元素需要插入
-    else if (aTail + 1 <= aHead) {
-      actions.push({ op: TAG.INSERT, cur: bElm, ref: aElm });
-      bHead++;
-    }
-    // 情况4：头部元素相同，直接更新
-    else if (same(aElm, bElm)) {
-      clone(aElm, bElm); // 复制状态
-      actions.push({ op: TAG.UPDATE });
-      aHead++;
-      bHead++;
-    }
-    // 情况5：头部元素不同，需要查找匹配的节点
-    else {
-      var foundB = bMap[aElm.key]; // 在新数组中查找旧元素的 key
-      var foundA = aMap[bElm.key]; // 在旧数组中查找新元素的 key
-
-      // 情况5a：旧元素在新数组中找不到，需要删除
-      if (foundB == null) {
-        removeElement(aElm);
-        aHead++;
-      }
-      // 情况5b：新元素在旧数组中找不到，需要插入
-      else if (foundA == null) {
-        actions.push({ op: TAG.INSERT, cur: bElm, ref: aElm });
-        bHead++;
-      }
-      // 情况5c：找到了匹配的节点，需要移动
-      else {
-        clone(aCh[foundA], bElm); // 复制找到的旧节点状态
-        actions.push({ op: TAG.MOVE, cur: aCh[foundA], ref: aElm });
-        aCh[foundA] = null; // 标记已移动的节点为 null
-        bHead++;
+  // sources[i - head] 为新节点复用的旧节点索引 + 1，0 表示没有可复用的旧节点
+  const sources: number[] = new Array(bTail - head + 1).fill(0);
+  let moved = false,
+    last = 0;
+
+  for (let i = head; i <= aTail; i++) {
+    const a = aCh[i];
+    let j: number;
+    if (a.key != null) {
+      j = keyed.get(a.key);
+    } else {
+      // 没有 key 的节点复用第一个类型相同、尚未被复用的无 key 新节点
+      for (let k = head; k <= bTail; k++) {
+        if (bCh[k].key == null && !sources[k - head] && same(a, bCh[k])) {
+          j = k;
+          break;
+        }
       }
     }
+    if (j == null || sources[j - head] || !same(a, bCh[j])) {
+      a.action = { op: TAG.REMOVE };
+      deletions.push(a);
+      continue;
+    }
+    sources[j - head] = i + 1;
+    // 复用的旧节点出现了逆序，说明有节点需要移动
+    if (j < last) moved = true;
+    else last = j;
+    update(a, j);
   }
 
-  // 第五步：将尾部匹配的操作添加到操作序列末尾
-  // 注意：temp 中的操作需要逆序添加，因为它们是按相反顺序收集的
-  for (let i = temp.length - 1; i >= 0; i--) {
-    actions.push(temp[i]);
+  // 第三步：位于最长递增子序列中的节点保持不动，其余复用的节点移动，未复用的节点插入
+  const stable = moved ? lis(sources) : null;
+  for (let i = head, k = 0; i <= bTail; i++) {
+    const source = sources[i - head];
+    if (!source) {
+      actions[i] = { op: TAG.INSERT };
+    } else if (moved) {
+      if (stable[k] === i - head) k++;
+      else actions[i] = { op: TAG.MOVE };
+    }
   }
 
-  return actions; // 返回完整的操作序列
+  return actions;
+};
+
+/**
+ * 计算最长递增子序列，忽略值为 0 的项
+ * @param arr 数组
+ * @returns 返回构成最长递增子序列的项在 arr 中的索引，按升序排列
+ */
+const lis = (arr: number[]) => {
+  // tails[k] 为长度为 k + 1 的递增子序列中，末尾最小的项的索引
+  const tails: number[] = [];
+  // prev[i] 为以 arr[i] 结尾的递增子序列中，前一项的索引
+  const prev: number[] = new Array(arr.length);
+  for (let i = 0; i < arr.length; i++) {
+    if (!arr[i]) continue;
+    let lo = 0,
+      hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (arr[tails[mid]] < arr[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    prev[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  }
+  const result: number[] = new Array(tails.length);
+  for (let k = tails.length - 1, i = tails[k]; k >= 0; k--, i = prev[i]) {
+    result[k] = i;
+  }
+  return result;
 };
 
 /**
@@ -405,6 +923,12 @@ const diff = (aCh: Fiber[], bCh: Fiber[]) => {
  */
 export const useFiber = () => currentFiber || null;
 
+/**
+ * 获取正在进行的渲染所处理的更新的最低优先级，状态 hook 只计算不低于它的更新
+ * 没有进行中的渲染（如服务端渲染）时处理所有更新
+ */
+export const renderLane = () => (wip ? wip.limit : LANE.IDLE);
+
 /**
  * 检查值是否为函数类型
  * @param x 要检查的值
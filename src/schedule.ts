@@ -1,6 +1,6 @@
-import { Task, TaskCallback } from './type';
+import { LANE, Task, TaskCallback } from './type';
 
-// 任务队列，存放待执行的任务（如虚拟DOM diff任务）
+// 任务队列，存放待执行的任务（如虚拟DOM diff任务），按优先级排序
 const queue: Task[] = [];
 // 每个时间切片的最大执行时长（毫秒），模拟 React 的时间分片调度
 const threshold: number = 5;
@@ -8,25 +8,61 @@ const threshold: number = 5;
 const transitions: (() => void)[] = [];
 // 当前时间片的截止时间
 let deadline: number = 0;
+// 当前发起更新所使用的优先级
+let currentLane: LANE = LANE.DEFAULT;
+// 是否正在执行任务，任务中不能再同步执行队列
+let draining = false;
 
 /**
- * 启动一个过渡任务（如 React 的 startTransition）
  * 将回调加入 transitions 队列并尝试调度
- * @param cb 要执行的过渡回调函数
+ * @param cb 要异步执行的回调函数
  */
-export const startTransition = (cb: () => void) => {
+const post = (cb: () => void) => {
   // push 返回新长度，&& translate() 只在 push 后执行
   transitions.push(cb) && translate();
 };
 
+/**
+ * 以指定优先级执行回调，回调中发起的更新都使用该优先级
+ * @param lane 优先级
+ * @param cb 要执行的回调函数
+ */
+export const runWithLane = <T>(lane: LANE, cb: () => T) => {
+  const prev = currentLane;
+  currentLane = lane;
+  try {
+    return cb();
+  } finally {
+    currentLane = prev;
+  }
+};
+
+/**
+ * 获取当前发起更新所使用的优先级
+ * @returns 返回当前优先级
+ */
+export const getLane = () => currentLane;
+
+/**
+ * 启动一个过渡更新（如 React 的 startTransition）
+ * 回调中发起的更新以 TRANSITION 优先级渲染，可以被更紧急的更新打断
+ * @param cb 发起过渡更新的回调函数
+ */
+export const startTransition = (cb: () => void) => {
+  runWithLane(LANE.TRANSITION, cb);
+};
+
 /**
  * 调度一个任务（如虚拟DOM diff）
- * 将任务加入队列并触发调度
+ * 按优先级插入队列，同一优先级内保持先进先出，并触发调度
  * @param callback 要执行的任务回调函数
+ * @param lane 任务的优先级
  */
-export const schedule = (callback: TaskCallback) => {
-  queue.push({ callback });
-  startTransition(flush);
+export const schedule = (callback: TaskCallback, lane: LANE = LANE.DEFAULT) => {
+  let i = queue.length;
+  while (i > 0 && queue[i - 1].lane > lane) i--;
+  queue.splice(i, 0, { callback, lane });
+  post(flush);
 };
 
 /**
@@ -64,29 +100,54 @@ let translate = task(false);
 const flush = () => {
   // 设定本次时间片的截止时间
   deadline = getTime() + threshold;
+  try {
+    // 在未超时且有任务时循环执行，同步优先级的任务不让出主线程
+    drain((job) => job.lane === LANE.SYNC || !shouldYield());
+  } finally {
+    const job = peek(queue);
+    // 如果还有任务未完成，切换为 pending 状态并递归调度（时间切片让出主线程）
+    job && (translate = task(shouldYield())) && post(flush);
+  }
+};
+
+/**
+ * 立即执行队列中指定优先级及更高优先级的任务，已在执行任务时不做任何事
+ * @param lane 优先级
+ */
+export const flushLane = (lane: LANE) => {
+  if (!draining) drain((job) => job.lane <= lane);
+};
+
+/**
+ * 依次执行队首的任务，直到队列为空或 more 返回 false
+ * @param more 检查是否继续执行队首任务的函数
+ */
+const drain = (more: (job: Task) => boolean) => {
   // 取出队首任务
   let job = peek(queue);
-
-  // 在未超时且有任务时循环执行
-  while (job && !shouldYield()) {
-    const { callback } = job;
-    // 先将当前任务的 callback 置空，防止重复执行
-    job.callback = null;
-    // 执行任务，返回值为下一个任务（如 diff 过程中的递归）
-    const next = callback();
-    if (next) {
-      // 如果有下一个任务，继续挂载到当前 job
-      job.callback = next;
-    } else {
-      // 否则任务完成，移出队列
-      queue.shift();
+  draining = true;
+  try {
+    while (job && more(job)) {
+      const { callback } = job;
+      // 先将当前任务的 callback 置空，防止重复执行
+      job.callback = null;
+      // 执行任务，返回值为下一个任务（如 diff 过程中的递归）
+      const next = callback();
+      if (next) {
+        // 如果有下一个任务，继续挂载到当前 job
+        job.callback = next;
+      } else {
+        // 否则任务完成，移出队列（执行期间可能插入了更高优先级的任务）
+        remove(job);
+      }
+      // 取优先级最高的任务，更高优先级的任务会打断进行中的任务
+      job = peek(queue);
     }
-    // 取下一个任务
-    job = peek(queue);
+  } finally {
+    draining = false;
+    // 任务抛出异常时 callback 已被置空，将其移出队列，避免队列卡死
+    if (job && !job.callback) remove(job);
   }
-
-  // 如果还有任务未完成，切换为 pending 状态并递归调度（时间切片让出主线程）
-  job && (translate = task(shouldYield())) && startTransition(flush);
 };
 
 /**
@@ -104,8 +165,17 @@ export const shouldYield = () => {
 export const getTime = () => performance.now();
 
 /**
- * 获取队首任务
+ * 获取队首任务，即优先级最高的任务
  * @param queue 任务队列
  * @returns 返回队首任务
  */
 const peek = (queue: Task[]) => queue[0];
+
+/**
+ * 将任务移出队列
+ * @param job 要移除的任务
+ */
+const remove = (job: Task) => {
+  const i = queue.indexOf(job);
+  if (i > -1) queue.splice(i, 1);
+};
@@ -0,0 +1,269 @@
+import { Fiber, FreNode, FiberHost, RootOptions, TAG } from './type';
+import { isArr } from './h';
+import { isFn, isStr, renderHook } from './reconcile';
+import { isThenable, primary, Suspense } from './suspense';
+import { ErrorBoundary } from './boundary';
+import { isPortal } from './portal';
+
+// 输出片段：字符串，或流式渲染时需要等待的 promise
+type Chunk = string | PromiseLike<unknown>;
+
+// 没有闭合标签的 HTML 元素
+const VOID_TAGS =
+  /^(area|base|br|col|embed|hr|img|input|keygen|link|meta|param|source|track|wbr)$/;
+
+// 客户端以 DOM 属性设置、在标签上名称不同的属性
+const ATTR_NAMES = { className: 'class', htmlFor: 'for' };
+
+const noop = () => {};
+
+/**
+ * 转义文本和属性值中的 HTML 特殊字符
+ * @param s 要转义的内容
+ */
+const escape = (s: unknown) =>
+  String(s).replace(
+    /[&<>"']/g,
+    (c) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[
+        c
+      ])
+  );
+
+/**
+ * 将 style 对象序列化为字符串，驼峰属性名转换为短横线形式
+ * @param style style 对象
+ */
+const styleOf = (style: Record<string, unknown>) =>
+  Object.keys(style)
+    .filter((k) => style[k] != null && style[k] !== false && style[k] !== '')
+    .map(
+      (k) =>
+        (k[0] === '-' ? k : k.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase())) +
+        ':' +
+        style[k]
+    )
+    .join(';');
+
+/**
+ * 遍历虚拟节点，按顺序产出 HTML 片段
+ * @param vnode 虚拟节点
+ * @param parent 父 Fiber 节点，供 useContext 向上查找
+ * @param svg 是否处于 SVG 命名空间
+ * @param wait 流式渲染时遇到 promise 是否等待，而不是渲染 Suspense 的 fallback
+ * @param index 在父节点子节点中的下标，与客户端 fiber 在 kids 中的下标一致
+ */
+function* walk(
+  vnode: FreNode,
+  parent: Fiber,
+  svg: boolean,
+  wait: boolean,
+  index = 0
+): Generator<Chunk> {
+  if (isArr(vnode)) {
+    for (let i = 0; i < vnode.length; i++) {
+      yield* walk(vnode[i], parent, svg, wait, i);
+    }
+  } else if (isStr(vnode)) {
+    yield escape(vnode);
+  } else if (vnode && vnode !== true) {
+    const fiber = Object.assign({}, vnode, { parent, index, lane: TAG.SERVER }) as Fiber;
+    if (fiber.type === '#text') {
+      yield escape(fiber.props.nodeValue);
+    } else if (isPortal(fiber)) {
+      return; // portal 的目标容器只存在于客户端，服务端不输出
+    } else if (fiber.type === ErrorBoundary || (!wait && fiber.type === Suspense)) {
+      yield* boundary(fiber, svg, wait);
+    } else if (isFn(fiber.type)) {
+      yield* component(fiber, svg, wait);
+    } else {
+      yield* element(fiber as FiberHost, svg, wait);
+    }
+  }
+}
+
+/**
+ * 渲染函数组件，hooks 正常执行，但 effect 和 layout 永远不会被调用
+ * 流式渲染时抛出的 promise 会交给消费方等待，完成后重新渲染该组件
+ * @param fiber 函数组件 Fiber
+ */
+function* component(fiber: Fiber, svg: boolean, wait: boolean) {
+  let children: FreNode;
+  while (true) {
+    try {
+      children = renderHook(fiber);
+      break;
+    } catch (e) {
+      if (!wait || !isThenable(e)) throw e;
+      yield e;
+    }
+  }
+  yield* walk(children, fiber, svg, wait);
+}
+
+/**
+ * 渲染 Suspense / ErrorBoundary，子树先渲染到缓冲区
+ * 子树抛出对应的异常时丢弃缓冲区，改为渲染 fallback
+ * @param fiber 边界 Fiber 节点
+ */
+function* boundary(fiber: Fiber, svg: boolean, wait: boolean) {
+  const isSuspense = fiber.type === Suspense;
+  const { fallback, children } = fiber.props;
+  let html = '';
+  try {
+    // Suspense 的子节点与客户端一样包裹在 Offscreen 中
+    for (const chunk of walk(isSuspense ? primary(children) : children, fiber, svg, wait)) {
+      if (isStr(chunk)) html += chunk;
+      else yield chunk;
+    }
+  } catch (e) {
+    if (isSuspense !== isThenable(e)) throw e;
+    yield* walk(isSuspense ? fallback : fallback(e, noop), fiber, svg, wait);
+    return;
+  }
+  yield html;
+}
+
+/**
+ * 检查 option 是否被所在 select 的 value 或 defaultValue 选中
+ * 没有 value 的 option 以文本内容作为值
+ * @param fiber option Fiber 节点
+ */
+const isSelected = (fiber: FiberHost) => {
+  let select = fiber.parent;
+  while (select && select.type !== 'select') select = select.parent;
+  if (!select) return false;
+  const { value, defaultValue, multiple } = select.props;
+  const selected = value ?? defaultValue;
+  if (selected == null) return false;
+  const children = fiber.props.children as Fiber | string;
+  const own =
+    fiber.props.value ??
+    (isStr(children) ? children : children?.type === '#text' ? children.props.nodeValue : '');
+  return (multiple ? selected : [selected]).map(String).includes(String(own));
+};
+
+/**
+ * 渲染原生元素，属性的序列化规则与 dom.ts 中的 updateElement 一致
+ * @param fiber 宿主 Fiber 节点
+ */
+function* element(fiber: FiberHost, svg: boolean, wait: boolean) {
+  const { type, props } = fiber;
+  let attrs = '';
+  let html: string = null;
+  svg = svg || type === 'svg';
+
+  for (let name in props) {
+    let value = props[name];
+    // 非受控的初始值只在没有对应的受控属性时输出，与 restoreControlled 一致
+    if (name === 'defaultValue' && type === 'input' && props.value == null) {
+      attrs += ` value="${escape(value)}"`;
+      continue;
+    } else if (name === 'defaultChecked' && props.checked == null) {
+      value = value && true;
+      name = 'checked';
+    }
+    if (
+      name === 'children' ||
+      value == null ||
+      value === false ||
+      (name[0] === 'o' && name[1] === 'n') ||
+      name === 'defaultValue' ||
+      name === 'defaultChecked' ||
+      (name === 'value' && (type === 'textarea' || type === 'select'))
+    ) {
+      continue;
+    } else if (name === 'innerHTML') {
+      html = value;
+    } else if (name === 'style' && !isStr(value)) {
+      attrs += ` style="${escape(styleOf(value))}"`;
+    } else {
+      const attr = (!svg && ATTR_NAMES[name]) || name;
+      attrs +=
+        value === true && attr.indexOf('-') < 0
+          ? ` ${attr}`
+          : ` ${attr}="${escape(value)}"`;
+    }
+  }
+
+  if (type === 'textarea') {
+    const text = props.value ?? props.defaultValue;
+    if (text != null) html = escape(text);
+  } else if (type === 'option' && isSelected(fiber)) {
+    attrs += ' selected';
+  }
+
+  yield `<${type}${attrs}>`;
+  if (!svg && VOID_TAGS.test(type)) return;
+  if (html != null) yield html;
+  else yield* walk(props.children, fiber, svg, wait);
+  yield `</${type}>`;
+}
+
+/**
+ * 构造与客户端对应的根 fiber，保存 useId 的前缀
+ * @param options identifierPrefix 等选项
+ */
+const rootOf = (options?: RootOptions) =>
+  ({ prefix: options?.identifierPrefix ?? '' } as Fiber);
+
+/**
+ * 将虚拟 DOM 渲染为 HTML 字符串
+ * 挂起的组件渲染最近的 Suspense 的 fallback
+ * @param vnode 虚拟 DOM 节点
+ * @returns 返回 HTML 字符串
+ */
+export const renderToString = (vnode: FreNode, options?: RootOptions) => {
+  let html = '';
+  for (const chunk of walk(vnode, rootOf(options), false, false)) html += chunk;
+  return html;
+};
+
+/**
+ * 将虚拟 DOM 渲染为 UTF-8 编码的 ReadableStream
+ * 挂起的组件会等待 promise 完成后继续输出，已渲染的部分先行发送
+ * @param vnode 虚拟 DOM 节点
+ * @returns 返回 ReadableStream
+ */
+export const renderToStream = (vnode: FreNode, options?: RootOptions) => {
+  const encoder = new TextEncoder();
+  const chunks = walk(vnode, rootOf(options), false, true);
+  // 上一次 pull 遇到、尚未等待的 promise
+  let pending: PromiseLike<unknown> = null;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      let html = '';
+      // 逐个读取片段，遇到 promise 时等待其完成后继续
+      const read = (): void | PromiseLike<void> => {
+        try {
+          while (true) {
+            if (pending) {
+              const wait = pending;
+              pending = null;
+              return wait.then(noop, noop).then(read);
+            }
+            const { value, done } = chunks.next();
+            if (done) {
+              html && controller.enqueue(encoder.encode(html));
+              return controller.close();
+            }
+            if (isStr(value)) {
+              html += value;
+            } else {
+              pending = value;
+              // 先发送已渲染的部分，下一次 pull 时再等待
+              if (html) return controller.enqueue(encoder.encode(html));
+            }
+          }
+        } catch (e) {
+          controller.error(e);
+        }
+      };
+      return read();
+    },
+    cancel() {
+      chunks.return(undefined);
+    },
+  });
+};
@@ -0,0 +1,129 @@
+import { Fragment, h } from './h';
+import { useReducer } from './hook';
+import { freeze, Offscreen } from './offscreen';
+import { isFn, useFiber } from './reconcile';
+import { FC, Fiber, FreNode, HookReducer } from './type';
+
+export interface SuspenseProps {
+  fallback?: FreNode;
+  children?: FreNode;
+}
+
+type Pending = Set<PromiseLike<unknown>>;
+
+/**
+ * promise 完成后，从挂起集合中移除
+ * 返回新的集合，保证 useReducer 能感知到变化并触发更新
+ * @param pending 挂起中的 promise 集合
+ * @param resolved 已完成的 promise
+ */
+const settle = (pending: Pending, resolved: PromiseLike<unknown>) => {
+  const next = new Set(pending);
+  next.delete(resolved);
+  return next;
+};
+
+// Suspense 包裹子节点的 Offscreen，子节点显示过之后再次挂起时保留下来隐藏
+const primaries = new WeakSet<Fiber>();
+
+/**
+ * 创建包裹子节点的 Offscreen，隐藏时冻结，保持上一次提交的子树不变
+ * 服务端渲染同样经过这一层，保证 useId 的路径与客户端一致
+ * @param children 子节点
+ * @param hidden 是否隐藏
+ */
+export const primary = (children: FreNode, hidden?: boolean) => {
+  const vnode = h(Offscreen, { mode: hidden ? 'hidden' : 'visible' }, children) as Fiber;
+  primaries.add(vnode);
+  return hidden ? freeze(vnode) : vnode;
+};
+
+/**
+ * Suspense 组件，子树中有 promise 挂起时渲染 fallback
+ * 子节点尚未显示过时只渲染 fallback；已经显示过则保留子树的状态和 DOM，隐藏后与 fallback 一起显示
+ * 挂起状态保存在第 0 个 hook 槽中，由 suspend 写入
+ * @param props fallback 与 children
+ */
+export const Suspense: FC<SuspenseProps> = ({ fallback, children }) => {
+  const [pending] = useReducer(settle, new Set() as Pending);
+  const kids = useFiber().kids;
+  if (!pending.size) return primary(children);
+  if (!kids?.length || !primaries.has(kids[0])) return fallback as ReturnType<FC>;
+  return [primary(children, true), h(Fragment, null, fallback)] as ReturnType<FC>;
+};
+
+/**
+ * 判断是否为 thenable（promise 或类 promise 对象）
+ * @param x 要检查的值
+ */
+export const isThenable = (x: any): x is PromiseLike<unknown> =>
+  x && isFn(x.then);
+
+/**
+ * 获取 Suspense fiber 的挂起集合
+ * @param fiber Suspense fiber
+ */
+const pendingOf = (fiber: Fiber) =>
+  (fiber.hooks.list[0] as HookReducer<Pending>)[0];
+
+/**
+ * 处理组件渲染时抛出的 promise
+ * 向上查找最近的、尚未挂起或从其保留的子树中抛出的 Suspense 祖先，记录 promise，并在其完成后重新调度
+ * @param fiber 抛出 promise 的 Fiber 节点
+ * @param promise 抛出的 promise
+ * @returns 返回需要重新处理的 Suspense fiber，找不到时返回 null
+ */
+export const suspend = (fiber: Fiber, promise: PromiseLike<unknown>) => {
+  let child = fiber;
+  let boundary = fiber.parent;
+  // fallback 中抛出的 promise 交给更外层的 Suspense 处理，保留的子树中再次挂起时仍交给所在的 Suspense
+  while (
+    boundary &&
+    !(boundary.type === Suspense && (!pendingOf(boundary).size || primaries.has(child)))
+  ) {
+    child = boundary;
+    boundary = boundary.parent;
+  }
+  if (!boundary) return null;
+
+  const hook = boundary.hooks.list[0] as HookReducer<Pending>;
+  hook[0].add(promise);
+  // 完成时读取最新的 dispatch，确保更新的是最新的 fiber
+  const resume = () => hook[1](promise);
+  promise.then(resume, resume);
+
+  return boundary;
+};
+
+/**
+ * 懒加载组件，首次渲染时调用 loader，加载完成前抛出 promise 交给 Suspense
+ * @param loader 返回组件（或 { default: 组件 }）的异步函数
+ * @returns 返回包装后的组件
+ */
+export const lazy = <T extends FC>(
+  loader: () => PromiseLike<{ default: T } | T>
+) => {
+  let promise: PromiseLike<void> = null;
+  let comp: T = null;
+  let error: unknown = null;
+  let failed = false;
+
+  const Lazy = ((props) => {
+    if (!promise) {
+      promise = loader().then(
+        (mod) => {
+          comp = (mod as { default: T }).default || (mod as T);
+        },
+        (e) => {
+          failed = true;
+          error = e;
+        }
+      );
+    }
+    if (failed) throw error;
+    if (!comp) throw promise;
+    return h(comp, props);
+  }) as T;
+
+  return Lazy;
+};
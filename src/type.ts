@@ -92,16 +92,20 @@ interface FiberBase {
   parent?: Fiber
   sibling?: Fiber
   child?: Fiber
+  index?: number
   ref?: Ref<HTMLElement | undefined>
   hooks?: Hooks
+  prefix?: string // 根 fiber 上 useId 的前缀
   action?: Action | null
   lane?: number,
+  duration?: number // 上一次处理 fiber 自身的耗时
+  actual?: number // 本次渲染中处理子树的耗时
+  base?: number // 不跳过 memo 时整个子树的耗时估算
+  captures?: number // 本次渲染中子树内 capture 的次数
 }
 
 export interface Action {
   op: TAG
-  cur?: Fiber
-  ref?: Fiber
 }
 
 export const enum TAG {
@@ -112,6 +116,20 @@ export const enum TAG {
   DIRTY = 1 << 5,
   MOVE = 1 << 6,
   REPLACE = 1 << 7,
+  HYDRATE = 1 << 8,
+  SERVER = 1 << 14,
+  HIDDEN = 1 << 15, // 位于隐藏的 Offscreen 中
+  PROFILE = 1 << 16, // 位于 Profiler 中，只有这些 fiber 需要计时
+}
+
+// 更新的优先级，数值越小优先级越高，与 TAG 共用 fiber.lane 的不同位
+export const enum LANE {
+  SYNC = 1 << 9,
+  USER_BLOCKING = 1 << 10,
+  DEFAULT = 1 << 11,
+  TRANSITION = 1 << 12,
+  IDLE = 1 << 13,
+  MASK = SYNC | USER_BLOCKING | DEFAULT | TRANSITION | IDLE,
 }
 
 export type HTMLElementEx = HTMLElement | Text | SVGElement
@@ -125,8 +143,63 @@ export type Reducer<S, A> = (prevState: S, action: A) => S
 export type EffectCallback = () => any | (() => () => any)
 export type DependencyList = ReadonlyArray<unknown>
 
+// createRoot 返回的根节点，每个根节点独立调度和卸载
+export interface Root {
+  render: (vnode: Fiber) => void
+  unmount: () => void
+}
+
+// createRoot、hydrate 和服务端渲染的选项
+export interface RootOptions {
+  identifierPrefix?: string // useId 生成的 id 的前缀，区分同一页面上的多个根节点
+}
+
+// 开发者工具看到的 fiber 节点，id 为节点在树中的路径
+export interface DevtoolsNode {
+  id: string
+  name: string
+  key: Key | null
+  props: Record<string, unknown>
+  hooks: DevtoolsHookSlot[]
+  children: DevtoolsNode[]
+}
+
+// 开发者工具看到的 hook 槽，状态 hook 带有 dispatch，可以用来修改状态
+export interface DevtoolsHookSlot {
+  kind?: string
+  value: unknown
+  dispatch?: Dispatch<unknown>
+}
+
+// 一次提交的信息：整棵 fiber 树、本次渲染的根 fiber 和提交耗时（毫秒）
+export interface DevtoolsCommit {
+  tree: DevtoolsNode[]
+  fiber: Fiber
+  duration: number
+  timestamp: number
+}
+
+// window.__FRE_DEVTOOLS_HOOK__，由浏览器扩展或页面内面板注入
+export interface DevtoolsHook {
+  onCommit: (commit: DevtoolsCommit) => void
+  subscribe?: (listener: (commit: DevtoolsCommit) => void) => () => void
+  last?: DevtoolsCommit
+}
+
+// Profiler 的 onRender 收到的报告，耗时以毫秒为单位
+export interface Profile {
+  id: string
+  phase: 'mount' | 'update'
+  actualDuration: number
+  baseDuration: number
+  captures: number
+  slices: number
+  commitTime: number
+}
+
 export type TaskCallback = (() => TaskCallback) | null | undefined
 
 export interface Task {
   callback?: TaskCallback
+  lane: LANE
 }
@@ -0,0 +1,158 @@
+import { h, useState, memo, batch, flushSync, Profiler } from '../src/index'
+import { testRender } from './test-util'
+
+export const batching = async t => {
+  let commits = 0
+  const renders = { a: 0, b: 0, parent: 0 }
+  let setA, setB, setParent
+
+  const A = memo(() => {
+    const [a, set] = useState(0)
+    setA = set
+    renders.a++
+    return <i>{a}</i>
+  })
+  const B = memo(() => {
+    const [b, set] = useState(0)
+    setB = set
+    renders.b++
+    return <b onClick={() => { setA(v => v + 1); set(v => v + 1) }}>{b}</b>
+  })
+  const Parent = () => {
+    const [p, set] = useState(0)
+    setParent = set
+    renders.parent++
+    return <p>{p}<A /><B /></p>
+  }
+
+  const [p] = await testRender(
+    <Profiler id="app" onRender={() => commits++}>
+      <Parent />
+    </Profiler>
+  ) as any[]
+  commits = 0
+  const wait = () => new Promise(r => setTimeout(r, 20))
+
+  // 同一时刻对兄弟子树的更新合并为一次提交
+  setA(1)
+  setB(1)
+  await wait()
+  t.eq(p.textContent, '011')
+  t.eq(commits, 1)
+
+  batch(() => {
+    setA(2)
+    batch(() => setB(2))
+  })
+  await wait()
+  t.eq(p.textContent, '022')
+  t.eq(commits, 2)
+
+  // 事件处理函数中的更新
+  p.querySelector('b').click()
+  await wait()
+  t.eq(p.textContent, '033')
+  t.eq(commits, 3)
+
+  // 父组件和子组件同时更新时子组件只渲染一次
+  renders.a = renders.b = renders.parent = 0
+  setA(4)
+  setParent(1)
+  await wait()
+  t.eq(p.textContent, '143')
+  t.eq(renders, { a: 1, b: 0, parent: 1 })
+  t.eq(commits, 4)
+
+  // flushSync 返回前已完成提交
+  const result = flushSync(() => {
+    setA(5)
+    setB(5)
+    return 'done'
+  })
+  t.eq(result, 'done')
+  t.eq(p.textContent, '155')
+  t.eq(commits, 5)
+}
+
+export const bailout = async t => {
+  let commits = 0
+  let captures = 0
+  const renders = { mid: 0, left: 0, right: 0, a: 0, b: 0, c: 0, m: 0 }
+  let setA, setB, setC, setMid
+
+  const A = () => {
+    const [a, set] = useState(0)
+    setA = set
+    renders.a++
+    return <i>{a}</i>
+  }
+  const B = () => {
+    const [b, set] = useState(0)
+    setB = set
+    renders.b++
+    return <b>{b}</b>
+  }
+  const C = () => {
+    const [c, set] = useState(0)
+    setC = set
+    renders.c++
+    return <u>{c}</u>
+  }
+  const M = memo(() => {
+    renders.m++
+    return <s><C /></s>
+  })
+  const Left = () => {
+    renders.left++
+    return <li><A /><span>left</span></li>
+  }
+  const Right = () => {
+    renders.right++
+    return <li><span>right</span><B /></li>
+  }
+  const Mid = () => {
+    const [mid, set] = useState(0)
+    setMid = set
+    renders.mid++
+    return <ul><Left /><Right /><M />{mid}</ul>
+  }
+
+  const [ul] = await testRender(
+    <Profiler id="app" onRender={profile => { commits++; captures = profile.captures }}>
+      <Mid />
+    </Profiler>
+  ) as any[]
+  const wait = () => new Promise(r => setTimeout(r, 20))
+  const reset = () => {
+    commits = 0
+    for (const k in renders) renders[k] = 0
+  }
+
+  // 从公共祖先开始遍历，没有更新的组件不重新渲染
+  reset()
+  const total = captures
+  setA(1)
+  setB(1)
+  await wait()
+  t.eq(ul.textContent, '1leftright100')
+  t.eq(renders, { mid: 0, left: 0, right: 0, a: 1, b: 1, c: 0, m: 0 })
+  t.eq(commits, 1)
+  t.ok(captures < total)
+
+  // 父组件的渲染跳过了 memo 组件，其中有更新的组件仍在同一次渲染中完成
+  reset()
+  setMid(1)
+  setC(1)
+  await wait()
+  t.eq(ul.textContent, '1leftright111')
+  t.eq(renders, { mid: 1, left: 1, right: 1, a: 1, b: 1, c: 1, m: 0 })
+  t.eq(commits, 1)
+
+  reset()
+  setC(2)
+  setA(2)
+  await wait()
+  t.eq(ul.textContent, '2leftright121')
+  t.eq(renders, { mid: 0, left: 0, right: 0, a: 1, b: 0, c: 1, m: 0 })
+  t.eq(commits, 1)
+}
@@ -0,0 +1,89 @@
+import { h, ErrorBoundary, useEffect, useState } from '../src/index'
+import { testRender } from './test-util'
+
+const tick = () => new Promise(r => setTimeout(r, 20))
+
+export const boundary = async t => {
+  let reset
+  let broken = true
+  const fallback = (error, r) => {
+    reset = r
+    return <p>{'caught ' + error}</p>
+  }
+  const Broken = () => {
+    if (broken) throw 'render'
+    return <b>fixed</b>
+  }
+
+  const [div] = await testRender(
+    <div>
+      <ErrorBoundary fallback={fallback}>
+        <i>before</i>
+        <Broken />
+      </ErrorBoundary>
+    </div>
+  ) as any[]
+
+  t.eq(div.textContent, 'caught render')
+
+  broken = false
+  reset()
+  await tick()
+
+  t.eq(div.textContent, 'beforefixed')
+}
+
+export const effectBoundary = async t => {
+  const Effect = () => {
+    useEffect(() => {
+      throw 'effect'
+    }, [])
+    return <b>effect</b>
+  }
+
+  const [div] = await testRender(
+    <div>
+      <ErrorBoundary fallback={error => <p>{'caught ' + error}</p>}>
+        <Effect />
+      </ErrorBoundary>
+    </div>
+  ) as any[]
+
+  await tick()
+
+  t.eq(div.textContent, 'caught effect')
+}
+
+export const boundaryReset = async t => {
+  let reset
+  let broken = false
+  let setCount
+
+  const Bad = () => {
+    const [count, set] = useState(0)
+    setCount = set
+    if (broken) throw 'update'
+    return <b>{count}</b>
+  }
+
+  const [div] = await testRender(
+    <div>
+      <ErrorBoundary fallback={(error, r) => ((reset = r), <p>{'caught ' + error}</p>)}>
+        <Bad />
+        <i>ok</i>
+      </ErrorBoundary>
+    </div>
+  ) as any[]
+  t.eq(div.innerHTML, '<b>0</b><i>ok</i>')
+
+  // 更新中抛出错误，修复后调用 reset 重新挂载子树
+  broken = true
+  setCount(1)
+  await tick()
+  t.eq(div.innerHTML, '<p>caught update</p>')
+
+  broken = false
+  reset()
+  await tick()
+  t.eq(div.innerHTML, '<b>0</b><i>ok</i>')
+}
@@ -0,0 +1,89 @@
+import { h, Component, useState, useLayout } from '../src/index'
+import { testRender } from './test-util'
+
+const tick = () => new Promise(r => setTimeout(r, 20))
+
+export const classes = async t => {
+  const log = []
+  let counter
+  let setShow
+  let setStep
+
+  class Counter extends Component<{ step: number }, { count: number; double?: number }> {
+    state = { count: 0 }
+    static getDerivedStateFromProps(props, state) {
+      return { double: state.count * 2 }
+    }
+    constructor(props) {
+      super(props)
+      counter = this
+    }
+    componentDidMount() {
+      log.push('mount ' + this.state.count)
+    }
+    componentDidUpdate(prevProps, prevState) {
+      log.push(`update ${prevState.count} -> ${this.state.count}`)
+    }
+    componentWillUnmount() {
+      log.push('unmount')
+    }
+    shouldComponentUpdate(nextProps, nextState) {
+      // 奇数不渲染
+      return nextState.count % 2 === 0 || nextProps.step !== this.props.step
+    }
+    render() {
+      log.push('render ' + this.state.count)
+      return <p>{this.state.count} {this.state.double} {this.props.step}</p>
+    }
+  }
+
+  const App = () => {
+    const [show, set] = useState(true)
+    const [step, setS] = useState(1)
+    setShow = set
+    setStep = setS
+    useLayout(() => {
+      log.push('parent layout')
+    }, [])
+    return <div>{show && <Counter step={step} />}</div>
+  }
+
+  const [div] = await testRender(<App />) as any[]
+  await tick()
+  t.eq(div.textContent, '0 0 1')
+  // componentDidMount 在 layout 阶段执行，早于父组件的 layout effect
+  t.eq(log, ['render 0', 'mount 0', 'parent layout'])
+
+  log.length = 0
+  counter.setState(({ count }, { step }) => ({ count: count + step }), () => log.push('callback'))
+  await tick()
+  // shouldComponentUpdate 返回 false，跳过渲染但 state 已更新，回调仍然执行
+  t.eq(div.textContent, '0 0 1')
+  t.eq(counter.state.count, 1)
+  t.eq(log, ['callback'])
+
+  log.length = 0
+  counter.setState({ count: 2 })
+  await tick()
+  t.eq(div.textContent, '2 4 1')
+  t.eq(log, ['render 2', 'update 1 -> 2'])
+
+  log.length = 0
+  counter.setState({ count: 3 })
+  counter.forceUpdate()
+  await tick()
+  t.eq(div.textContent, '3 6 1')
+  t.eq(log, ['render 3', 'update 2 -> 3'])
+
+  log.length = 0
+  setStep(2)
+  await tick()
+  t.eq(div.textContent, '3 6 2')
+  t.eq(log, ['render 3', 'update 3 -> 3'])
+
+  log.length = 0
+  setShow(false)
+  await tick()
+  t.eq(div.textContent, '')
+  t.eq(log, ['unmount'])
+}
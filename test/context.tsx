@@ -0,0 +1,132 @@
+import { h, memo, useState, createContext, useContext, useContextSelector } from '../src/index'
+import { testRender } from './test-util'
+
+export const context = async t => {
+  const renders = { a: 0, b: 0, all: 0 }
+  const Store = createContext({ a: 0, b: 0 })
+
+  const A = memo(() => {
+    renders.a++
+    return <i>{useContextSelector(Store, s => s.a)}</i>
+  })
+  const B = memo(() => {
+    renders.b++
+    return <b>{useContextSelector(Store, s => s.b)}</b>
+  })
+  const All = memo(() => {
+    renders.all++
+    const s = useContext(Store)
+    return <u>{s.a + s.b}</u>
+  })
+  const Outside = () => <s>{useContextSelector(Store, s => s.a + 100)}</s>
+
+  let setState
+  const App = () => {
+    const [state, set] = useState({ a: 1, b: 1 })
+    setState = set
+    return (
+      <div>
+        <Store value={state}>
+          <A />
+          <B />
+          <All />
+        </Store>
+        <Outside />
+      </div>
+    )
+  }
+
+  const [div] = await testRender(<App />) as any[]
+  const text = () => [...div.childNodes].map(node => node.textContent).join(',')
+  t.eq(text(), '1,1,2,100')
+  t.eq(renders, { a: 1, b: 1, all: 1 })
+
+  // 只有选取结果变化的消费者重新渲染
+  setState(s => ({ ...s, a: 2 }))
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), '2,1,3,100')
+  t.eq(renders, { a: 2, b: 1, all: 2 })
+
+  setState(s => ({ ...s, b: 5 }))
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), '2,5,7,100')
+  t.eq(renders, { a: 2, b: 2, all: 3 })
+
+  // value 变化但选取结果不变时不渲染
+  setState(s => ({ ...s }))
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), '2,5,7,100')
+  t.eq(renders, { a: 2, b: 2, all: 4 })
+}
+
+export const contextApi = async t => {
+  const Theme = createContext('light')
+  const Middle = memo(() => (
+    <p>
+      <Theme.Consumer>{v => <i>{v}</i>}</Theme.Consumer>
+      <Theme.Provider value="inner">
+        <Theme.Consumer>{v => <b>{v}</b>}</Theme.Consumer>
+      </Theme.Provider>
+    </p>
+  ))
+
+  let setTheme
+  const App = () => {
+    const [theme, set] = useState('dark')
+    setTheme = set
+    return (
+      <div>
+        <Theme.Provider value={theme}>
+          <Middle />
+        </Theme.Provider>
+        <Theme.Consumer>{v => <s>{v}</s>}</Theme.Consumer>
+      </div>
+    )
+  }
+
+  const [div] = await testRender(<App />) as any[]
+  const text = () => [...div.querySelectorAll('i,b,s')].map(node => node.textContent).join(',')
+  t.is(Theme.Provider, Theme)
+  t.eq(text(), 'dark,inner,light')
+
+  // memo 组件被跳过，其中的消费者仍然收到最近的 Provider 的新值，内层 Provider 遮蔽外层
+  setTheme('blue')
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), 'blue,inner,light')
+  setTheme('red')
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), 'red,inner,light')
+}
+
+export const memoUpdate = async t => {
+  let setCount, setTick
+  const Counter = memo(() => {
+    const [count, set] = useState(0)
+    setCount = set
+    return <em>{count}</em>
+  })
+  const Parent = () => {
+    const [tick, set] = useState(0)
+    setTick = set
+    return <div><b>{tick}</b><Counter /></div>
+  }
+
+  const [div] = await testRender(<Parent />) as any[]
+  const text = () => div.textContent
+
+  // 父组件的渲染跳过了 memo 组件，组件自身的更新不会丢失
+  setTick(1)
+  setCount(1)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), '11')
+  setTick(2)
+  await new Promise(r => setTimeout(r, 20))
+  setCount(2)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), '22')
+  setCount(3)
+  setTick(3)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text(), '33')
+  t.eq(div.querySelectorAll('em').length, 1)
+}
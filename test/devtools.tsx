@@ -0,0 +1,56 @@
+import { h, Fragment, useState, useMemo } from '../src/index'
+import { DevtoolsPanel, installDevtools } from '../src/panel'
+import { testRender } from './test-util'
+
+const tick = () => new Promise(r => setTimeout(r, 20))
+
+const find = (tree, name) => {
+  for (const node of tree) {
+    const found = node.name === name ? node : find(node.children, name)
+    if (found) return found
+  }
+}
+
+export const devtools = async t => {
+  const commits = []
+  const unsubscribe = installDevtools().subscribe(commit => commits.push(commit))
+
+  const Counter = ({ step }) => {
+    const [count] = useState(1)
+    const double = useMemo(() => count * 2, [count])
+    return <p>{count * step} {double}</p>
+  }
+
+  const [p, panel] = await testRender(
+    <>
+      <Counter key="c" step={10} />
+      <DevtoolsPanel />
+    </>
+  ) as any[]
+
+  t.ok(commits.length > 0)
+  t.ok(commits[0].duration >= 0)
+  const counter = find(commits[commits.length - 1].tree, 'Counter')
+  t.eq(counter.name, 'Counter')
+  t.eq(counter.key, 'c')
+  t.eq(counter.props, { step: 10 })
+  t.eq(counter.hooks.map(hook => [hook.kind, hook.value]), [
+    ['useState', 1],
+    ['useMemo', 2],
+  ])
+  t.eq(counter.children[0].name, 'p')
+
+  counter.hooks[0].dispatch(3)
+  await tick()
+  t.eq(p.textContent, '30 6')
+  t.ok(panel.textContent.includes('Counter key=c'))
+
+  const row = [...panel.querySelectorAll('div')].find(div => div.textContent === 'Counter key=c')
+  row.click()
+  await tick()
+  t.ok(panel.textContent.includes('step: 10'))
+  t.ok(panel.textContent.includes('#1 useMemo: 6'))
+
+  unsubscribe()
+  delete window.__FRE_DEVTOOLS_HOOK__
+}
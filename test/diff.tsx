@@ -1,5 +1,5 @@
-import { h } from '../src/index'
-import { testUpdates } from './test-util'
+import { h, useState, useEffect, startTransition } from '../src/index'
+import { testRender, testUpdates } from './test-util'
 
 export const diff = async t => {
   const states = [
@@ -46,4 +46,81 @@ export const diff = async t => {
       },
     }))
   )
-}
\ No newline at end of file
+}
+export const moves = async t => {
+  let setItems
+  const List = () => {
+    const [items, set] = useState([1, 2, 3, 4, 5, 6])
+    setItems = set
+    return <ul>{items.map(i => <li key={i}>{i}</li>)}</ul>
+  }
+
+  const [ul] = await testRender(<List />) as any[]
+  // 统计 DOM 插入和移动的次数
+  let count = 0
+  ul.insertBefore = function (node, ref) {
+    count++
+    return Node.prototype.insertBefore.call(this, node, ref)
+  }
+  const expect = async (items, moved) => {
+    const nodes = new Map([...ul.children].map(li => [li.textContent, li]))
+    count = 0
+    setItems(items)
+    await new Promise(r => setTimeout(r, 20))
+    t.eq([...ul.children].map(li => li.textContent), items.map(String))
+    items.forEach((item, i) => nodes.has('' + item) && t.is(ul.children[i], nodes.get('' + item)))
+    t.eq(count, moved)
+  }
+
+  await expect([6, 1, 2, 3, 4, 5], 1) // 轮转只移动一个节点
+  await expect([1, 2, 3, 4, 5, 6], 1)
+  await expect([6, 5, 4, 3, 2, 1], 5) // 反转保留一个节点不动
+  await expect([5, 7, 3, 1], 1) // 5、3、1 的相对顺序不变，只插入 7
+  await expect([1, 3, 5, 7, 8], 3)
+}
+
+export const deferredRemoval = async t => {
+  const log = []
+  let rendered = 0
+  let setShow
+  let setItems
+
+  const Item = ({ id }) => {
+    useEffect(() => () => log.push('unmount ' + id), [])
+    return <li>{id}</li>
+  }
+  const Slow = () => {
+    rendered++
+    const start = performance.now()
+    while (performance.now() - start < 2) {}
+    return null
+  }
+  const App = () => {
+    const [show, set] = useState(true)
+    const [items, setList] = useState([])
+    setShow = set
+    setItems = setList
+    return (
+      <ul>
+        {show && <Item id="a" />}
+        {items.map(i => <Slow key={i} />)}
+      </ul>
+    )
+  }
+
+  const [ul] = await testRender(<App />) as any[]
+  await new Promise(r => setTimeout(r, 20))
+
+  startTransition(() => {
+    setShow(false)
+    setItems([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+  })
+  // 渲染进行到一半时，旧节点仍在 DOM 中
+  while (!rendered) await new Promise(r => setTimeout(r))
+  t.eq(ul.textContent, 'a')
+  t.eq(log, [])
+
+  await new Promise(r => setTimeout(r, 100))
+  t.eq(ul.textContent, '')
+  t.eq(log, ['unmount a'])
+}
@@ -0,0 +1,115 @@
+import { h, useState, createPortal } from '../src/index'
+import { testRender } from './test-util'
+
+export const events = async t => {
+  const log = []
+  const modal = document.createElement('section')
+  document.documentElement.appendChild(modal)
+
+  const add = EventTarget.prototype.addEventListener
+  let listeners = 0
+  EventTarget.prototype.addEventListener = function (...args) {
+    listeners++
+    return add.apply(this, args)
+  }
+
+  let setCount
+  const App = () => {
+    const [count, set] = useState(0)
+    setCount = set
+    return (
+      <div
+        onClickCapture={e => log.push('div capture ' + e.currentTarget.tagName)}
+        onClick={() => log.push('div bubble ' + count)}
+      >
+        {[0, 1, 2].map(i => (
+          <button key={i} onClick={e => log.push('button ' + i + ' ' + count)} />
+        ))}
+        <p onClick={e => (log.push('p'), e.stopPropagation())}>
+          <b onClickOnce={() => log.push('b once')} />
+        </p>
+        <i onWheelPassive={e => log.push('passive ' + e.type)} />
+        {createPortal(<a onClick={() => log.push('portal')} />, modal)}
+      </div>
+    )
+  }
+
+  const [div] = await testRender(<App />) as any[]
+  const [b0, b1] = div.querySelectorAll('button')
+
+  b1.click()
+  t.eq(log, ['div capture DIV', 'button 1 0', 'div bubble 0'])
+
+  log.length = 0
+  listeners = 0
+  setCount(1)
+  await new Promise(r => setTimeout(r, 20))
+  b0.click()
+  t.eq(log, ['div capture DIV', 'button 0 1', 'div bubble 1'])
+  EventTarget.prototype.addEventListener = add
+  // 处理函数变化不会重新注册监听器
+  t.eq(listeners, 0)
+
+  log.length = 0
+  const bold = div.querySelector('b')
+  bold.click()
+  bold.click()
+  t.eq(log, ['div capture DIV', 'b once', 'p', 'div capture DIV', 'p'])
+
+  log.length = 0
+  div.querySelector('i').dispatchEvent(new Event('wheel', { bubbles: true }))
+  modal.querySelector('a').click()
+  t.eq(log, ['passive wheel', 'div capture DIV', 'portal', 'div bubble 1'])
+  modal.remove()
+}
+
+export const onceEvents = async t => {
+  let clicks = 0
+  const count = () => clicks++
+
+  const [div] = await testRender(
+    <div>
+      <a onClickOnce={count} />
+      <b onClick={count} />
+      <i onClickOnce={count} />
+    </div>
+  ) as any[]
+  const [a, b, i] = div.children
+
+  // once 按节点和事件属性记录，同一个函数在其他节点上不受影响
+  a.click()
+  a.click()
+  b.click()
+  b.click()
+  i.click()
+  t.eq(clicks, 4)
+}
+
+export const nativeEvents = async t => {
+  const log = []
+  const [div] = await testRender(
+    <div onClick={e => (log.push('outer'), e.stopPropagation())}>
+      <button />
+      <p onClick={() => log.push('inner')}>
+        <i />
+      </p>
+    </div>
+  ) as any[]
+  const onDocument = () => log.push('document')
+  document.addEventListener('click', onDocument)
+
+  // 冒泡阶段的处理函数在内部节点的原生监听器之后执行，stopPropagation 不影响它们
+  const button = div.querySelector('button')
+  button.addEventListener('click', () => log.push('native'))
+  button.click()
+  t.eq(log, ['native', 'outer'])
+
+  // 内部节点上原生的 stopPropagation 同样停止冒泡阶段的处理函数
+  log.length = 0
+  const i = div.querySelector('i')
+  i.addEventListener('click', e => (log.push('native stop'), e.stopPropagation()))
+  i.click()
+  t.eq(log, ['native stop'])
+
+  document.removeEventListener('click', onDocument)
+}
@@ -0,0 +1,71 @@
+import { h, useState } from '../src/index'
+import { testRender } from './test-util'
+
+const tick = () => new Promise(r => setTimeout(r, 20))
+
+export const form = async t => {
+  let setChecked
+  let setSelected
+  const App = () => {
+    const [text, setText] = useState('ab')
+    const [checked, set] = useState(true)
+    const [selected, select] = useState(['b'])
+    setChecked = set
+    setSelected = select
+    return (
+      <form>
+        <input value={text} onInput={e => e.target.value.length <= 3 && setText(e.target.value)} />
+        <input type="checkbox" checked={checked} onClick={() => {}} />
+        <select multiple value={selected}>
+          <option value="a">a</option>
+          <option value="b">b</option>
+          <option value="c">c</option>
+        </select>
+        <select defaultValue="c">
+          <option value="a">a</option>
+          <option value="c">c</option>
+        </select>
+        <input defaultValue="x" />
+        <input value={0} />
+      </form>
+    )
+  }
+
+  const [form] = await testRender(<App />) as any[]
+  const [text, checkbox, uncontrolled, zero] = form.querySelectorAll('input')
+  const [multiple, single] = form.querySelectorAll('select')
+  const type = value => {
+    text.value = value
+    text.dispatchEvent(new Event('input', { bubbles: true }))
+  }
+
+  t.eq(text.value, 'ab')
+  t.eq(zero.value, '0')
+  t.eq(checkbox.checked, true)
+  t.eq([...multiple.options].map(o => o.selected), [false, true, false])
+  t.eq(single.value, 'c')
+  t.eq(uncontrolled.value, 'x')
+
+  type('abc')
+  await tick()
+  t.eq(text.value, 'abc')
+
+  // 处理函数拒绝的输入被恢复
+  type('abcd')
+  await tick()
+  t.eq(text.value, 'abc')
+
+  checkbox.click()
+  await tick()
+  t.eq(checkbox.checked, true)
+
+  single.value = 'a'
+  uncontrolled.value = 'y'
+  setChecked(false)
+  setSelected(['a', 'c'])
+  await tick()
+  t.eq(checkbox.checked, false)
+  t.eq([...multiple.options].map(o => o.selected), [true, false, true])
+  t.eq(single.value, 'a')
+  t.eq(uncontrolled.value, 'y')
+}
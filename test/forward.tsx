@@ -0,0 +1,68 @@
+import { h, useRef, useState, useLayout, useImperativeHandle, forwardRef, Component } from '../src/index'
+import { testRender } from './test-util'
+
+export const forward = async t => {
+  const log = []
+  const Input = forwardRef<{ label: string }, HTMLInputElement>(function TextField({ label }, ref) {
+    return <label>{label}<input ref={ref} /></label>
+  })
+  const Counter = forwardRef<{}, { increment: () => void }>((props, ref) => {
+    const [count, setCount] = useState(0)
+    useImperativeHandle(ref, () => ({ increment: () => setCount(count + 1) }), [count])
+    return <b>{count}</b>
+  })
+  const Fancy = forwardRef<{}, { focus: () => void }>((props, ref) => {
+    const inner = useRef<HTMLInputElement>(null)
+    useImperativeHandle(ref, () => ({ focus: () => inner.current.focus() }), [])
+    return <input class="fancy" ref={inner} />
+  })
+  class Box extends Component {
+    render() {
+      return <i>box</i>
+    }
+  }
+
+  let setShow
+  const input = { current: null }
+  const counter = { current: null }
+  const box = { current: null }
+  const fancy = { current: null }
+  const App = () => {
+    const [show, set] = useState(true)
+    setShow = set
+    useLayout(() => {
+      // 子组件的 layout 先执行，父组件此时已能读到 handle
+      log.push(!!counter.current)
+      // 宿主节点的 ref 在 layout effects 之前已经赋值
+      fancy.current.focus()
+    }, [])
+    return (
+      <div>
+        <Input label="name" ref={input} />
+        {show && <Counter ref={counter} />}
+        {show && <Box ref={box} />}
+        <Fancy ref={fancy} />
+      </div>
+    )
+  }
+
+  const [div] = await testRender(<App />) as any[]
+  t.is(input.current, div.querySelector('input'))
+  t.eq(Input.name, 'TextField')
+  t.ok(box.current instanceof Box)
+  t.eq(log, [true])
+  t.is(document.activeElement, div.querySelector('.fancy'))
+
+  counter.current.increment()
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(div.querySelector('b').textContent, '1')
+  counter.current.increment() // 依赖变化后 handle 已更新
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(div.querySelector('b').textContent, '2')
+
+  setShow(false)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(counter.current, null)
+  t.eq(box.current, null)
+  t.is(input.current, div.querySelector('input'))
+}
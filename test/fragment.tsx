@@ -1,5 +1,5 @@
-import { h, useState, Fragment } from '../src/index'
-import { testUpdates } from './test-util'
+import { h, useState, memo, Fragment } from '../src/index'
+import { testRender, testUpdates } from './test-util'
 
 export const fragment = async (t) => {
   const Component = () => {
@@ -28,3 +28,71 @@ export const fragment = async (t) => {
     },
   ])
 }
+
+export const keyedFragment = async t => {
+  const Pair = ({ id }) => (
+    <>
+      <dt>{id}</dt>
+      <dd>{id}</dd>
+    </>
+  )
+  const Item = memo(({ id }) => <li>{id}</li>)
+
+  let setOrder
+  let setShow
+  const App = () => {
+    const [order, set] = useState(['a', 'b', 'c'])
+    const [show, toggle] = useState(false)
+    setOrder = set
+    setShow = toggle
+    return (
+      <div>
+        <dl>
+          {order.map(id => (
+            <Fragment key={id}>
+              <Pair id={id} />
+            </Fragment>
+          ))}
+        </dl>
+        <ul>
+          {order.map(id => <Item key={id} id={id} />)}
+        </ul>
+        <p>
+          <Pair id="x" />
+          {show && <Pair id="y" />}
+          <b>end</b>
+        </p>
+      </div>
+    )
+  }
+
+  const [div] = await testRender(<App />) as any[]
+  const text = selector => [...div.querySelector(selector).childNodes].map(node => node.textContent).join('')
+  const comments = () =>
+    document.createTreeWalker(document.body, 128 /* SHOW_COMMENT */).nextNode()
+
+  t.eq(text('dl'), 'aabbcc')
+  t.eq(text('ul'), 'abc')
+  t.eq(comments(), null)
+
+  const dd = div.querySelector('dd')
+  setOrder(['c', 'a', 'b'])
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text('dl'), 'ccaabb')
+  t.eq(text('ul'), 'cab')
+  t.is(div.querySelector('dt:nth-child(3)').nextSibling, dd) // 移动复用已有的节点
+
+  setOrder(['b', 'd', 'c'])
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text('dl'), 'bbddcc')
+  t.eq(text('ul'), 'bdc')
+
+  // 中间位置的组件插入的节点位于其左右兄弟节点之间
+  setShow(true)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text('p'), 'xxyyend')
+  setShow(false)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(text('p'), 'xxend')
+  t.eq(comments(), null)
+}
@@ -0,0 +1,137 @@
+import { h, hydrate, createRoot, useEffect, useState, useId } from '../src/index'
+import { renderToString } from '../src/server'
+
+const tick = () => new Promise(r => setTimeout(r, 20))
+
+export const hydration = async t => {
+  let clicks = 0
+  let refNode
+  const Counter = () => {
+    const [count, setCount] = useState(0)
+    return (
+      <button ref={dom => (refNode = dom)} onClick={() => (clicks++, setCount(count + 1))}>
+        {count} clicks
+      </button>
+    )
+  }
+  const App = () => (
+    <div>
+      <h1>title</h1>
+      <Counter />
+      {''}
+    </div>
+  )
+
+  document.body.innerHTML = renderToString(<App />)
+  const [div] = [...document.body.children]
+  const button = div.querySelector('button')
+  const h1 = div.querySelector('h1')
+
+  const warnings = []
+  const warn = console.warn
+  console.warn = msg => warnings.push(msg)
+  hydrate(<App />, document.body)
+  await tick()
+  console.warn = warn
+
+  t.eq(warnings, [])
+  t.is(document.body.querySelector('div'), div)
+  t.is(div.querySelector('button'), button)
+  t.is(div.querySelector('h1'), h1)
+  t.is(refNode, button)
+  // 末尾的空文本在服务端输出中没有对应的节点，直接新建
+  t.eq(div.childNodes.length, 3)
+  t.eq(div.lastChild.nodeValue, '')
+
+  button.click()
+  await tick()
+
+  t.eq(clicks, 1)
+  t.eq(button.textContent, '1 clicks')
+}
+
+export const mismatch = async t => {
+  let done
+  const App = () => {
+    useEffect(() => done(), [])
+    return (
+      <div>
+        <p>client</p>
+        <span>kept</span>
+      </div>
+    )
+  }
+
+  document.body.innerHTML = '<div><b>server</b><span>kept</span><i>extra</i></div>'
+  const span = document.body.querySelector('span')
+
+  const warnings = []
+  const warn = console.warn
+  console.warn = msg => warnings.push(msg)
+  await new Promise(resolve => {
+    done = resolve
+    hydrate(<App />, document.body)
+  })
+  console.warn = warn
+
+  t.eq(document.body.innerHTML.replace(/<!--.*?-->/g, ''), '<div><p>client</p><span>kept</span></div>')
+  t.is(document.body.querySelector('span'), span)
+  t.eq(warnings.length, 2)
+  t.ok(warnings[0].includes('App > div > p'))
+}
+
+export const ids = async t => {
+  const ids = []
+  const Field = ({ label }) => {
+    const id = useId()
+    const hint = useId()
+    ids.push(id, hint)
+    return (
+      <p>
+        <label htmlFor={id}>{label}</label>
+        <input id={id} aria-describedby={hint} />
+        <small id={hint}>hint</small>
+      </p>
+    )
+  }
+  const App = () => (
+    <form>
+      <Field label="name" />
+      {[1, 2].map(i => <Field key={i} label={'item ' + i} />)}
+    </form>
+  )
+
+  document.body.innerHTML = renderToString(<App />)
+  const server = ids.splice(0)
+  t.eq(new Set(server).size, 6)
+  t.eq([...document.body.querySelectorAll('[id]')].map(node => node.id), server)
+
+  const warnings = []
+  const warn = console.warn
+  console.warn = msg => warnings.push(msg)
+  hydrate(<App />, document.body)
+  await tick()
+  console.warn = warn
+
+  t.eq(warnings, [])
+  t.eq(ids, server)
+
+  // 服务端和水合使用相同的前缀
+  ids.length = 0
+  document.body.innerHTML = renderToString(<App />, { identifierPrefix: 'x-' })
+  const prefixed = ids.splice(0)
+  t.ok(prefixed.every(id => id.startsWith('fre-x-')))
+  hydrate(<App />, document.body, { identifierPrefix: 'x-' })
+  await tick()
+  t.eq(ids, prefixed)
+
+  // 结构相同的两个根节点生成不同的 id
+  ids.length = 0
+  document.body.innerHTML = '<div></div><div></div>'
+  const [first, second] = document.body.children
+  createRoot(first).render(<App />)
+  createRoot(second).render(<App />)
+  await tick()
+  t.eq(new Set(ids).size, 12)
+  t.eq(new Set([...document.body.querySelectorAll('[id]')].map(node => node.id)).size, 12)
+}
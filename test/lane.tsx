@@ -0,0 +1,149 @@
+import {
+  h,
+  useState,
+  useLayout,
+  startTransition,
+  useTransition,
+  useDeferredValue,
+} from '../src/index'
+import { testRender } from './test-util'
+
+export const lane = async t => {
+  const log = []
+  let rendered = 0
+  let setText
+  let setCount
+
+  const Slow = ({ value }) => {
+    rendered++
+    const start = performance.now()
+    while (performance.now() - start < 2) {}
+    return <li>{value}</li>
+  }
+
+  const Text = () => {
+    const [text, set] = useState('a')
+    setText = set
+    useLayout(() => {
+      log.push('text ' + text)
+    })
+    return <p>{text}</p>
+  }
+
+  const List = () => {
+    const [count, set] = useState(0)
+    setCount = set
+    useLayout(() => {
+      log.push('list ' + count)
+    })
+    const items = []
+    for (let i = 0; i < count; i++) items.push(<Slow key={i} value={i} />)
+    return <ul>{items}</ul>
+  }
+
+  const [div] = await testRender(
+    <div>
+      <Text />
+      <List />
+    </div>
+  ) as any[]
+
+  log.length = 0
+  startTransition(() => setCount(20))
+  // 等待过渡渲染开始后再发起紧急更新
+  while (!rendered) await new Promise(r => setTimeout(r))
+  setText('b')
+  await new Promise(r => setTimeout(r, 200))
+
+  t.eq(log, ['text b', 'list 20'])
+  t.eq(div.querySelector('p').textContent, 'b')
+  t.eq(div.querySelectorAll('li').length, 20)
+  t.ok(rendered > 20) // 被打断的渲染从头重新开始
+}
+
+export const transition = async t => {
+  const log = []
+  let start
+  let setQuery
+
+  const App = () => {
+    const [isPending, startTransition] = useTransition()
+    const [count, setCount] = useState(0)
+    const [query, set] = useState('a')
+    const deferred = useDeferredValue(query)
+    start = () => startTransition(() => setCount(count + 1))
+    setQuery = set
+    useLayout(() => {
+      log.push(`${isPending} ${count} ${query} ${deferred}`)
+    })
+    return <p>{count}</p>
+  }
+
+  const [p] = await testRender(<App />) as any[]
+
+  log.length = 0
+  start()
+  await new Promise(r => setTimeout(r, 50))
+
+  t.eq(log, ['true 0 a a', 'false 1 a a'])
+  t.eq(p.textContent, '1')
+
+  log.length = 0
+  setQuery('b')
+  await new Promise(r => setTimeout(r, 50))
+
+  t.eq(log, ['false 1 b a', 'false 1 b b'])
+
+  // 回调同步执行，事件对象在回调中仍然可用
+  let search
+  const Search = () => {
+    const [, startTransition] = useTransition()
+    const [q, set] = useState('')
+    search = q
+    return <input onInput={e => startTransition(() => set(e.currentTarget.value))} />
+  }
+  const [input] = await testRender(<Search />) as any[]
+  input.value = 'fre'
+  input.dispatchEvent(new Event('input', { bubbles: true }))
+  await new Promise(r => setTimeout(r, 50))
+
+  t.eq(search, 'fre')
+}
+
+export const sameComponent = async t => {
+  const log = []
+  let setText
+  let setCount
+  let setStep
+
+  const App = () => {
+    const [text, set] = useState('a')
+    const [count, setC] = useState(0)
+    const [step, setS] = useState(1)
+    setText = set
+    setCount = setC
+    setStep = setS
+    useLayout(() => {
+      log.push(`${text} ${count} ${step}`)
+    })
+    return <p>{text}</p>
+  }
+
+  await testRender(<App />)
+
+  // 同一组件中的紧急更新先提交，过渡更新之后单独渲染
+  log.length = 0
+  startTransition(() => setCount(30))
+  setText('b')
+  await new Promise(r => setTimeout(r, 50))
+
+  t.eq(log, ['b 0 1', 'b 30 1'])
+
+  // 同一个 hook 中跳过的过渡更新之后，在其之前的状态上按顺序重新计算
+  log.length = 0
+  startTransition(() => setStep(n => n + 1))
+  setStep(n => n * 2)
+  await new Promise(r => setTimeout(r, 50))
+
+  t.eq(log, ['b 30 2', 'b 30 4'])
+}
@@ -0,0 +1,80 @@
+import { h, useState, useEffect, useLayout, Offscreen } from '../src/index'
+import { testRender } from './test-util'
+
+export const offscreen = async t => {
+  const log = []
+  const setters = {}
+
+  const Tab = ({ name }) => {
+    const [count, set] = useState(0)
+    setters[name] = set
+    useLayout(() => {
+      log.push(`layout ${name}`)
+      return () => log.push(`unlayout ${name}`)
+    }, [])
+    useEffect(() => {
+      log.push(`effect ${name} ${count}`)
+      return () => log.push(`uneffect ${name} ${count}`)
+    }, [count])
+    return <b>{name + count}</b>
+  }
+
+  let setTab
+  const App = () => {
+    const [tab, set] = useState('a')
+    setTab = set
+    return (
+      <div>
+        <Offscreen mode={tab === 'a' ? 'visible' : 'hidden'}>
+          <Tab name="a" />
+        </Offscreen>
+        <Offscreen mode={tab === 'b' ? 'visible' : 'hidden'}>
+          <Tab name="b" />
+          text
+        </Offscreen>
+      </div>
+    )
+  }
+
+  const [div] = await testRender(<App />) as any[]
+  const wait = () => new Promise(r => setTimeout(r, 20))
+  const [a, b, text] = div.childNodes
+  await wait()
+
+  // 隐藏的子树同样渲染出 DOM，但不执行 effects
+  t.eq(div.childNodes.length, 3)
+  t.eq(a.style.display, '')
+  t.eq(b.style.display, 'none')
+  t.eq(b.textContent, 'b0')
+  t.eq(text.nodeValue, '')
+  t.eq(log, ['layout a', 'effect a 0'])
+
+  // 切换时保留状态和 DOM，断开隐藏子树的 effects，重新执行显示子树的 effects
+  log.length = 0
+  setters['a'](1)
+  await wait()
+  log.length = 0
+  setTab('b')
+  await wait()
+  t.eq(a.style.display, 'none')
+  t.eq(b.style.display, '')
+  t.eq(text.nodeValue, 'text')
+  t.eq(div.childNodes[0], a)
+  t.eq(a.textContent, 'a1')
+  t.eq(log, ['unlayout a', 'uneffect a 1', 'layout b', 'effect b 0'])
+
+  // 隐藏子树中的更新仍会渲染，但保持隐藏，effects 在显示时才执行
+  log.length = 0
+  setters['a'](2)
+  await wait()
+  t.eq(a.textContent, 'a2')
+  t.eq(a.style.display, 'none')
+  t.eq(log, [])
+
+  setTab('a')
+  await wait()
+  t.eq(a.style.display, '')
+  t.eq(b.style.display, 'none')
+  t.eq(text.nodeValue, '')
+  t.eq(log, ['layout a', 'unlayout b', 'uneffect b 0', 'effect a 2'])
+}
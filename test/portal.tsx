@@ -0,0 +1,45 @@
+import { h, useState, useEffect, createContext, useContext, createPortal } from '../src/index'
+import { testRender } from './test-util'
+
+export const portal = async t => {
+  const modal = document.createElement('section')
+  document.documentElement.appendChild(modal)
+
+  const log = []
+  const Theme = createContext('light')
+  const Label = () => {
+    useEffect(() => {
+      log.push('mount')
+      return () => log.push('unmount')
+    }, [])
+    return <b>{useContext(Theme)}</b>
+  }
+
+  let setOpen
+  const App = () => {
+    const [open, set] = useState(true)
+    setOpen = set
+    return (
+      <Theme value="dark">
+        <p>before</p>
+        {open && createPortal(<Label />, modal)}
+        <p>after</p>
+      </Theme>
+    )
+  }
+
+  const nodes = await testRender(<App />) as any[]
+  await new Promise(r => setTimeout(r, 20))
+
+  t.eq(nodes.map(n => n.textContent), ['before', 'after'])
+  t.eq(modal.innerHTML.replace(/<!--.*?-->/g, ''), '<b>dark</b>')
+  t.eq(log, ['mount'])
+
+  setOpen(false)
+  await new Promise(r => setTimeout(r, 20))
+
+  t.eq(modal.innerHTML.replace(/<!--.*?-->/g, ''), '')
+  t.eq(document.body.textContent, 'beforeafter')
+  t.eq(log, ['mount', 'unmount'])
+  modal.remove()
+}
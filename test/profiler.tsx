@@ -0,0 +1,56 @@
+import { h, memo, useState, Profiler } from '../src/index'
+import { testRender } from './test-util'
+
+const busy = ms => {
+  const start = performance.now()
+  while (performance.now() - start < ms) {}
+}
+
+export const profiler = async t => {
+  const profiles = []
+  let setCount
+
+  const Counter = () => {
+    const [count, set] = useState(0)
+    setCount = set
+    busy(2)
+    return <p>{count}</p>
+  }
+
+  const Heavy = memo(() => {
+    busy(6)
+    return <p>heavy</p>
+  })
+
+  await testRender(
+    <Profiler id="app" onRender={profile => profiles.push(profile)}>
+      <Counter />
+      <Heavy />
+    </Profiler>
+  )
+
+  t.eq(profiles.length, 1)
+  const [mount] = profiles
+  t.eq(mount.id, 'app')
+  t.eq(mount.phase, 'mount')
+  t.ok(mount.actualDuration >= 8)
+  t.ok(mount.baseDuration >= mount.actualDuration)
+  // Profiler、Counter、p、文本、Heavy、p、文本
+  t.eq(mount.captures, 7)
+  t.ok(mount.slices > 1) // 超过 5ms 的渲染被切成多个时间片
+  t.ok(mount.commitTime > 0)
+
+  profiles.length = 0
+  setCount(1)
+  await new Promise(r => setTimeout(r, 50))
+
+  // 组件自身的更新，外层的 Profiler 同样收到报告，被跳过的 Heavy 只计入 base
+  t.eq(profiles.length, 1)
+  const [update] = profiles
+  t.eq(update.phase, 'update')
+  t.eq(update.captures, 3)
+  t.ok(update.actualDuration >= 2 && update.actualDuration < 6)
+  t.ok(update.baseDuration >= 8)
+  t.ok(update.slices >= 1)
+  t.ok(update.commitTime > mount.commitTime)
+}
@@ -1,15 +1,35 @@
 import { h } from '../src/index'
 import { test } from 'zora'
-import { diff } from './diff'
+import { diff, moves, deferredRemoval } from './diff'
 import { update, handler, style, dom } from './update'
 import { ref, refer } from './ref'
 import { once, change, every } from './effect'
 import { svg } from './svg'
-import { fragment } from './fragment'
+import { fragment, keyedFragment } from './fragment'
 import { memor } from './memo'
+import { suspense, resuspend } from './suspense'
+import { boundary, effectBoundary, boundaryReset } from './boundary'
+import { hydration, mismatch, ids } from './hydrate'
+import { lane, transition, sameComponent } from './lane'
+import { store } from './store'
+import { portal } from './portal'
+import { roots, unmountPending, renderTwice } from './root'
+import { events, onceEvents, nativeEvents } from './event'
+import { form } from './form'
+import { hookRules } from './rules'
+import { warnings } from './warning'
+import { devtools } from './devtools'
+import { profiler } from './profiler'
+import { classes } from './component'
+import { forward } from './forward'
+import { context, contextApi, memoUpdate } from './context'
+import { batching, bailout } from './batch'
+import { offscreen } from './offscreen'
 
 test('render', async t => {
   await diff(t)
+  await moves(t)
+  await deferredRemoval(t)
   await update(t)
   await handler(t)
   await style(t)
@@ -20,6 +40,39 @@ test('render', async t => {
   await once(t)
   await every(t)
   await svg(t)
-  // await fragment(t)
+  await fragment(t)
+  await keyedFragment(t)
   await memor(t)
+  await suspense(t)
+  await resuspend(t)
+  await boundary(t)
+  await effectBoundary(t)
+  await boundaryReset(t)
+  await hydration(t)
+  await mismatch(t)
+  await ids(t)
+  await lane(t)
+  await transition(t)
+  await sameComponent(t)
+  await store(t)
+  await portal(t)
+  await roots(t)
+  await unmountPending(t)
+  await renderTwice(t)
+  await events(t)
+  await onceEvents(t)
+  await nativeEvents(t)
+  await form(t)
+  await hookRules(t)
+  await warnings(t)
+  await devtools(t)
+  await profiler(t)
+  await classes(t)
+  await forward(t)
+  await context(t)
+  await contextApi(t)
+  await memoUpdate(t)
+  await batching(t)
+  await bailout(t)
+  await offscreen(t)
 })
@@ -0,0 +1,99 @@
+import { h, render, createRoot, useState, useEffect } from '../src/index'
+
+const tick = () => new Promise(r => setTimeout(r, 20))
+
+export const roots = async t => {
+  document.body.innerHTML = '<div id="a"></div><div id="b"></div>'
+  const [a, b] = [...document.body.children]
+
+  const log = []
+  const setters = {}
+  let ref = null
+  const Widget = ({ name }) => {
+    const [count, set] = useState(0)
+    setters[name] = set
+    useEffect(() => {
+      log.push('mount ' + name)
+      return () => log.push('unmount ' + name)
+    }, [])
+    return <p ref={dom => (ref = dom)}>{name + count}</p>
+  }
+
+  const rootA = createRoot(a)
+  const rootB = createRoot(b)
+  rootA.render(<Widget name="a" />)
+  rootB.render(<Widget name="b" />)
+  await tick()
+
+  t.eq(a.textContent, 'a0')
+  t.eq(b.textContent, 'b0')
+
+  setters['a'](1)
+  rootB.render(<i>b</i>)
+  await tick()
+
+  t.eq(a.textContent, 'a1')
+  t.eq(b.innerHTML.replace(/<!--.*?-->/g, ''), '<i>b</i>')
+  t.eq(log, ['mount a', 'mount b', 'unmount b'])
+
+  rootA.unmount()
+  await tick()
+
+  t.eq(a.innerHTML, '')
+  t.eq(ref, null)
+  t.eq(log, ['mount a', 'mount b', 'unmount b', 'unmount a'])
+  t.eq(b.innerHTML.replace(/<!--.*?-->/g, ''), '<i>b</i>')
+}
+
+export const unmountPending = async t => {
+  document.body.innerHTML = '<div></div>'
+  const container = document.body.firstChild
+  const counts = { effects: 0, cleanups: 0 }
+  let set
+  const Counter = () => {
+    const [count, setCount] = useState(0)
+    set = setCount
+    useEffect(() => {
+      counts.effects++
+      return () => counts.cleanups++
+    }, [count])
+    return <p>{count}</p>
+  }
+
+  const root = createRoot(container)
+  root.render(<Counter />)
+  await tick()
+
+  // 卸载前已调度的更新不再渲染
+  set(1)
+  root.unmount()
+  await tick()
+
+  t.eq(counts, { effects: 1, cleanups: 1 })
+  t.eq((container as Element).innerHTML, '')
+}
+
+export const renderTwice = async t => {
+  document.body.innerHTML = '<div></div>'
+  const container = document.body.firstChild as Element
+  const log = []
+  const Widget = ({ name }) => {
+    useEffect(() => {
+      log.push('mount ' + name)
+      return () => log.push('cleanup ' + name)
+    }, [name])
+    return <p>{name}</p>
+  }
+
+  render(<Widget name="1" />, container)
+  await tick()
+  const p = container.firstChild
+
+  // 再次渲染到同一容器时与上一次的结果进行 diff
+  render(<Widget name="2" />, container)
+  await tick()
+
+  t.eq(log, ['mount 1', 'cleanup 1', 'mount 2'])
+  t.is(container.firstChild, p)
+  t.eq(container.innerHTML, '<p>2</p>')
+}
@@ -0,0 +1,59 @@
+import { h, useState, useRef, useEffect, useSyncExternalStore, ErrorBoundary } from '../src/index'
+import { testRender } from './test-util'
+
+const tick = () => new Promise(r => setTimeout(r, 20))
+
+export const hookRules = async t => {
+  const errors = []
+  const setters = []
+  const Order = () => {
+    const [flag, set] = useState(false)
+    setters[0] = set
+    if (flag) useRef(null)
+    useState(0)
+    return null
+  }
+  const Count = () => {
+    const [flag, set] = useState(false)
+    setters[1] = set
+    if (flag) return null
+    useEffect(() => {})
+    return null
+  }
+  const fallback = error => (errors.push(error.message), null)
+
+  await testRender(
+    <div>
+      <ErrorBoundary fallback={fallback}>
+        <Order />
+      </ErrorBoundary>
+      <ErrorBoundary fallback={fallback}>
+        <Count />
+      </ErrorBoundary>
+    </div>
+  )
+
+  setters[0](true)
+  setters[1](true)
+  await tick()
+
+  t.eq(errors.length, 2)
+  t.ok(errors[0].includes('order of hooks changed in Order'))
+  t.ok(errors[0].includes('hook #2 was useState and is now useRef'))
+  t.ok(errors[1].includes('Count rendered fewer hooks'))
+
+  let message
+  try {
+    useState(0)
+  } catch (e) {
+    message = e.message
+  }
+  t.ok(message.includes('useState was called outside of a function component'))
+
+  try {
+    useSyncExternalStore(() => () => {}, () => 0)
+  } catch (e) {
+    message = e.message
+  }
+  t.ok(message.includes('useSyncExternalStore was called outside of a function component'))
+}
@@ -0,0 +1,156 @@
+import { test } from 'zora'
+import {
+  h,
+  Component,
+  lazy,
+  Suspense,
+  ErrorBoundary,
+  useState,
+  useEffect,
+  createContext,
+  useContext,
+  useSyncExternalStore,
+} from '../src/index'
+import { renderToString, renderToStream } from '../src/server'
+
+test('renderToString', t => {
+  let effects = 0
+  const Theme = createContext('light')
+  const Label = () => <span>{useContext(Theme)}</span>
+  const App = () => {
+    const [count] = useState(1)
+    useEffect(() => {
+      effects++
+    })
+    return (
+      <div className="app" style={{ fontSize: '12px', marginTop: 0 }} onClick={() => {}}>
+        <input disabled value="a&b" />
+        <Theme value="dark">
+          <Label />
+        </Theme>
+        {count} {'<b>'}
+        {null}
+        {false}
+      </div>
+    )
+  }
+
+  t.eq(
+    renderToString(<App />),
+    '<div class="app" style="font-size:12px;margin-top:0"><input disabled value="a&amp;b"><span>dark</span>1 &lt;b&gt;</div>'
+  )
+  t.eq(effects, 0)
+
+  t.eq(
+    renderToString(
+      <svg viewBox="0 0 10 10" className="icon">
+        <circle r="1" />
+      </svg>
+    ),
+    '<svg viewBox="0 0 10 10" className="icon"><circle r="1"></circle></svg>'
+  )
+})
+
+test('renderToString form defaults', t => {
+  t.eq(
+    renderToString(
+      <form>
+        <input defaultValue="x" />
+        <input value="v" defaultValue="x" />
+        <input type="checkbox" defaultChecked />
+        <input type="checkbox" checked={false} defaultChecked />
+        <textarea defaultValue="t" />
+        <select value="b">
+          <option value="a">A</option>
+          <option value="b">B</option>
+        </select>
+        <select multiple defaultValue={['a', 'c']}>
+          <optgroup>
+            <option>a</option>
+            <option>b</option>
+            <option>c</option>
+          </optgroup>
+        </select>
+      </form>
+    ),
+    '<form><input value="x"><input value="v"><input type="checkbox" checked>' +
+      '<input type="checkbox"><textarea>t</textarea>' +
+      '<select><option value="a">A</option><option value="b" selected>B</option></select>' +
+      '<select multiple><optgroup><option selected>a</option><option>b</option><option selected>c</option></optgroup></select></form>'
+  )
+})
+
+test('renderToString external store', t => {
+  const subscribe = () => () => {}
+  const Client = () => <b>{useSyncExternalStore(subscribe, () => 'client')}</b>
+  const Server = () => (
+    <i>{useSyncExternalStore(subscribe, () => 'client', () => 'server')}</i>
+  )
+
+  t.eq(renderToString(<p><Client /><Server /></p>), '<p><b>client</b><i>server</i></p>')
+})
+
+test('renderToString class component', t => {
+  let mounted = false
+  class Greeting extends Component<{ name: string }, { greeting: string }> {
+    state = { greeting: 'hello' }
+    static getDerivedStateFromProps(props, state) {
+      return { greeting: `${state.greeting} ${props.name}` }
+    }
+    componentDidMount() {
+      mounted = true
+    }
+    render() {
+      return <p>{this.state.greeting}</p>
+    }
+  }
+
+  t.eq(renderToString(<Greeting name="fre" />), '<p>hello fre</p>')
+  t.eq(mounted, false)
+})
+
+test('renderToString boundaries', t => {
+  const Lazy = lazy(() => new Promise(() => {}))
+  const Broken = () => {
+    throw 'oops'
+  }
+
+  t.eq(
+    renderToString(
+      <div>
+        <Suspense fallback={<i>loading</i>}>
+          <b>shown?</b>
+          <Lazy />
+        </Suspense>
+        <ErrorBoundary fallback={error => <i>{error}</i>}>
+          <Broken />
+        </ErrorBoundary>
+      </div>
+    ),
+    '<div><i>loading</i><i>oops</i></div>'
+  )
+})
+
+test('renderToStream', async t => {
+  const Lazy = lazy(() => Promise.resolve({ default: () => <p>lazy</p> }))
+
+  const stream = renderToStream(
+    <div>
+      <h1>title</h1>
+      <Suspense fallback={<i>loading</i>}>
+        <Lazy />
+      </Suspense>
+    </div>
+  )
+
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  const chunks = []
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    chunks.push(decoder.decode(value))
+  }
+
+  t.eq(chunks, ['<div><h1>title</h1>', '<p>lazy</p></div>'])
+})
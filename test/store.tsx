@@ -0,0 +1,48 @@
+import { h, useSyncExternalStore } from '../src/index'
+import { testRender } from './test-util'
+
+export const store = async t => {
+  let value = 1
+  const listeners = new Set<() => void>()
+  const subscribe = cb => {
+    listeners.add(cb)
+    return () => listeners.delete(cb)
+  }
+  const getSnapshot = () => value
+  const set = v => {
+    value = v
+    listeners.forEach(cb => cb())
+  }
+
+  let renders = 0
+  const Read = () => {
+    renders++
+    return <i>{useSyncExternalStore(subscribe, getSnapshot)}</i>
+  }
+  // 渲染过程中修改 store，模拟时间切片让出主线程期间的外部更新
+  let mutated = false
+  const Mutate = () => {
+    if (!mutated) {
+      mutated = true
+      value = 2
+    }
+    return null
+  }
+
+  const [div] = await testRender(
+    <div>
+      <Read />
+      <Mutate />
+      <Read />
+    </div>
+  ) as any[]
+
+  t.eq(div.textContent, '22')
+  t.eq(renders, 4)
+
+  set(3)
+  await new Promise(r => setTimeout(r, 20))
+
+  t.eq(div.textContent, '33')
+  t.eq(listeners.size, 2)
+}
@@ -0,0 +1,93 @@
+import { h, lazy, Suspense, useEffect, useState } from '../src/index'
+import { testRender } from './test-util'
+
+export const suspense = async t => {
+  let resolve
+  const loaded = new Promise(r => (resolve = r))
+
+  const Lazy = lazy(() => loaded.then(() => ({ default: () => <p>hello</p> })))
+
+  const [div] = await testRender(
+    <div>
+      <Suspense fallback={<span>loading</span>}>
+        <Lazy />
+        <b>after</b>
+      </Suspense>
+    </div>
+  ) as any[]
+
+  t.eq(div.textContent, 'loading')
+
+  resolve()
+  await loaded
+  await new Promise(r => setTimeout(r, 20))
+
+  t.eq(div.textContent, 'helloafter')
+  t.eq(div.querySelector('span'), null)
+}
+
+export const resuspend = async t => {
+  const log = []
+  let resolve
+  let pending = null
+  let setValue
+
+  const Child = ({ value }) => {
+    if (pending) throw pending
+    useEffect(() => {
+      log.push('mount ' + value)
+      return () => log.push('unmount ' + value)
+    }, [value])
+    return <b>{value}</b>
+  }
+  const Holder = () => {
+    const [value, set] = useState(0)
+    setValue = set
+    return <i><Child value={value} /></i>
+  }
+  let setCount
+  const Counter = () => {
+    const [count, set] = useState(0)
+    setCount = set
+    return <p>{count}</p>
+  }
+
+  const [div] = await testRender(
+    <div>
+      <Suspense fallback={<em>loading</em>}>
+        <Holder />
+        <Counter />
+      </Suspense>
+    </div>
+  ) as any[]
+  await new Promise(r => setTimeout(r, 20))
+  setCount(2)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(div.innerHTML, '<i><b>0</b></i><p>2</p>')
+
+  // 已经显示的子树再次挂起时保留下来隐藏，与 fallback 一起显示
+  pending = new Promise(r => (resolve = r))
+  setValue(1)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(div.innerHTML, '<i style="display: none;"><b>0</b></i><p style="display: none;">2</p><em>loading</em>')
+  t.eq([...log], ['mount 0', 'unmount 0'])
+
+  // 保留的子树中再次挂起仍由同一个 Suspense 处理，兄弟组件的更新照常提交
+  setValue(2)
+  setCount(3)
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(div.querySelector('em').textContent, 'loading')
+  t.eq(div.querySelector('p').textContent, '3')
+
+  // 完成后显示挂起时的更新，兄弟组件的状态保持不变
+  const done = pending
+  pending = null
+  resolve()
+  await done
+  await new Promise(r => setTimeout(r, 20))
+  t.eq(div.textContent, '23')
+  t.eq(div.querySelector('i').style.display, '')
+  t.eq(div.querySelector('p').style.display, '')
+  t.eq(div.querySelector('em'), null)
+  t.eq([...log], ['mount 0', 'unmount 0', 'mount 2'])
+}
@@ -29,7 +29,8 @@ export const update = async (t) => {
       content: <Component />,
       test: ([button]) => {
         t.eq(+button.textContent, 10)
-        t.eq(updates, 2)
+        // 点击和父组件的更新合并为一次渲染
+        t.eq(updates, 1)
       },
     },
   ])
@@ -0,0 +1,65 @@
+import { h, useState } from '../src/index'
+import { testRender } from './test-util'
+
+export const warnings = async t => {
+  const warnings = []
+  const warn = console.warn
+  console.warn = msg => warnings.push(msg)
+
+  let setLater
+  const Later = () => {
+    const [value, set] = useState(0)
+    setLater = set
+    return <b>{value}</b>
+  }
+  let setShown
+  const List = () => {
+    const [shown, set] = useState(true)
+    setShown = set
+    return (
+      <ul>
+        {['a', 'b'].map(v => <li>{v}</li>)}
+        {shown && <Later />}
+      </ul>
+    )
+  }
+  const Keys = () => (
+    <ol>
+      <li key="x" />
+      <li key="x" />
+    </ol>
+  )
+  const Invalid = () => <p>{{ text: 'a' } as any}</p>
+  const Items = () => ['a', 'b'].map(v => <li>{v}</li>)
+  // 原样传下去的静态子节点不是列表，不需要 key
+  const Card = ({ children }) => <section>{children}</section>
+
+  await testRender(
+    <div>
+      <List />
+      <Keys />
+      <Invalid />
+      <ul>
+        <Items />
+      </ul>
+      <Card>
+        <h1 />
+        <p />
+      </Card>
+    </div>
+  )
+
+  setShown(false)
+  await new Promise(r => setTimeout(r, 20))
+  setLater(1)
+  console.warn = warn
+
+  t.eq(warnings.length, 5)
+  t.ok(warnings[0].startsWith('[fre] Each child in a list should have a unique "key" prop.\n    in List\n    in div'))
+  t.ok(warnings[1].includes('two children with the same key "x"'))
+  t.ok(warnings[1].includes('in ol\n    in Keys'))
+  t.ok(warnings[2].includes('found: object with keys {text}'))
+  t.ok(warnings[3].startsWith('[fre] Each child in a list should have a unique "key" prop.\n    in Items\n    in ul'))
+  t.ok(warnings[4].includes("Can't perform a state update on an unmounted component"))
+  t.ok(warnings[4].includes('in Later\n    in ul\n    in List'))
+}